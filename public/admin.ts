@@ -0,0 +1,244 @@
+import type { PlayerStatus } from "../shared/player";
+import type { RoomListing } from "../shared/room";
+import { RoomStatus } from "../shared/room";
+
+interface AdminRoom extends RoomListing {
+   status: RoomStatus;
+   variant: string;
+   unlisted: boolean;
+   ownerId: string | undefined;
+   players: { id: string; name: string; status: PlayerStatus; bot?: string }[];
+   spectators: { id: string; name: string }[];
+}
+
+interface AdminPlayer {
+   id: string;
+   name: string;
+   room: string | undefined;
+   spectating: boolean;
+}
+
+interface AdminStatus {
+   draining: boolean;
+   bans: Record<string, { name: string; bannedAt: number }>;
+}
+
+const REFRESH_INTERVAL = 5000;
+
+let draining = false;
+
+document.addEventListener("DOMContentLoaded", () => {
+   initControls();
+   void refresh();
+   setInterval(() => void refresh(), REFRESH_INTERVAL);
+});
+
+// MARK: Controls
+
+function initControls(): void {
+   const tokenInput = document.querySelector(
+      "#admin-token-input"
+   ) as HTMLInputElement;
+   tokenInput.value = sessionStorage.getItem("adminToken") ?? "";
+   tokenInput.addEventListener("change", () => {
+      sessionStorage.setItem("adminToken", tokenInput.value);
+      void refresh();
+   });
+
+   document
+      .querySelector("#admin-refresh-btn")
+      ?.addEventListener("click", () => void refresh());
+
+   document
+      .querySelector("#admin-drain-btn")
+      ?.addEventListener(
+         "click",
+         () => void act("/drain", { enabled: !draining })
+      );
+
+   const noticeInput = document.querySelector(
+      "#admin-notice-input"
+   ) as HTMLInputElement;
+   document
+      .querySelector("#admin-notice-btn")
+      ?.addEventListener("click", async () => {
+         if (await act("/broadcast", { message: noticeInput.value }))
+            noticeInput.value = "";
+      });
+}
+
+// MARK: Requests
+
+async function request<T>(
+   path: string,
+   body?: unknown
+): Promise<T | undefined> {
+   const token = sessionStorage.getItem("adminToken") ?? "";
+   const response = await fetch(`/api/v1/admin${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+         Authorization: `Bearer ${token}`,
+         "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+   });
+
+   const data = (await response.json()) as T & {
+      error?: { message: string };
+   };
+   showError(data.error?.message);
+   return response.ok ? data : undefined;
+}
+
+// Run an action, then show its effect
+async function act(path: string, body: unknown = {}): Promise<boolean> {
+   const done = (await request(path, body)) !== undefined;
+   if (done) await refresh();
+   return done;
+}
+
+async function refresh(): Promise<void> {
+   const status = await request<AdminStatus>("/status");
+   if (!status) return;
+
+   const rooms = (await request<AdminRoom[]>("/rooms")) ?? [];
+   const players = (await request<AdminPlayer[]>("/players")) ?? [];
+
+   renderStatus(status);
+   renderRooms(rooms);
+   renderPlayers(players);
+   renderBans(status);
+}
+
+// MARK: Rendering
+
+function renderStatus(status: AdminStatus): void {
+   draining = status.draining;
+
+   const label = document.querySelector("#admin-drain-status") as HTMLElement;
+   label.textContent = draining
+      ? "Draining: no new rooms are opening"
+      : "Accepting new rooms";
+
+   const button = document.querySelector(
+      "#admin-drain-btn"
+   ) as HTMLButtonElement;
+   button.textContent = draining ? "Stop draining" : "Drain";
+   button.classList.toggle("danger", !draining);
+}
+
+function renderRooms(rooms: AdminRoom[]): void {
+   const container = document.querySelector("#admin-rooms") as HTMLDivElement;
+   container.innerHTML = "";
+   if (rooms.length === 0) container.append(emptyRow("No rooms"));
+
+   for (const room of rooms) {
+      const names = room.players
+         .map((player) => `${player.name} (${player.status})`)
+         .join(", ");
+      const flags = [
+         room.unlisted && "unlisted",
+         room.locked && "locked",
+         room.hasPassword && "password",
+      ].filter(Boolean);
+
+      const row = adminRow(
+         `${room.code} · ${room.status} · ${room.variant}${flags.length > 0 ? ` · ${flags.join(", ")}` : ""}`,
+         `${names || "No players"} · ${room.spectators.length} watching`
+      );
+      row.append(
+         button("View", () => void showRoom(room.code)),
+         button(
+            "End game",
+            () => void act(`/rooms/${room.code}/end`),
+            room.status !== RoomStatus.PLAYING
+         )
+      );
+      container.append(row);
+   }
+}
+
+async function showRoom(code: string): Promise<void> {
+   const state = await request<unknown>(`/rooms/${code}`);
+   const pre = document.querySelector("#admin-room-state") as HTMLPreElement;
+   pre.textContent = JSON.stringify(state, undefined, 2);
+   pre.classList.toggle("hidden", state === undefined);
+}
+
+function renderPlayers(players: AdminPlayer[]): void {
+   const container = document.querySelector("#admin-players") as HTMLDivElement;
+   container.innerHTML = "";
+   if (players.length === 0) container.append(emptyRow("Nobody connected"));
+
+   for (const player of players) {
+      const where = player.room
+         ? `${player.spectating ? "Watching" : "In"} ${player.room}`
+         : "On the menu";
+
+      const row = adminRow(player.name, `${player.id} · ${where}`);
+      row.append(
+         button("Kick", () => void act(`/players/${player.id}/kick`)),
+         button("Ban", () => void act(`/players/${player.id}/ban`), false, true)
+      );
+      container.append(row);
+   }
+}
+
+function renderBans(status: AdminStatus): void {
+   const container = document.querySelector("#admin-bans") as HTMLDivElement;
+   container.innerHTML = "";
+
+   const bans = Object.entries(status.bans);
+   if (bans.length === 0) container.append(emptyRow("No bans"));
+
+   for (const [id, ban] of bans) {
+      const row = adminRow(
+         ban.name,
+         `${id} · since ${new Date(ban.bannedAt).toLocaleString()}`
+      );
+      row.append(button("Unban", () => void act(`/players/${id}/unban`)));
+      container.append(row);
+   }
+}
+
+function adminRow(title: string, detail: string): HTMLDivElement {
+   const row = document.createElement("div");
+   row.className = "admin-row";
+
+   const text = document.createElement("div");
+   const titleDiv = document.createElement("div");
+   titleDiv.textContent = title;
+   const detailDiv = document.createElement("div");
+   detailDiv.className = "admin-muted";
+   detailDiv.textContent = detail;
+   text.append(titleDiv, detailDiv);
+
+   row.append(text);
+   return row;
+}
+
+function emptyRow(message: string): HTMLDivElement {
+   const row = document.createElement("div");
+   row.className = "admin-muted";
+   row.textContent = message;
+   return row;
+}
+
+function button(
+   label: string,
+   onClick: () => void,
+   disabled = false,
+   danger = false
+): HTMLButtonElement {
+   const element = document.createElement("button");
+   element.textContent = label;
+   element.disabled = disabled;
+   if (danger) element.classList.add("danger");
+   element.addEventListener("click", onClick);
+   return element;
+}
+
+function showError(message?: string): void {
+   const error = document.querySelector("#admin-error") as HTMLDivElement;
+   error.textContent = message ?? "";
+}
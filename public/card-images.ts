@@ -0,0 +1,27 @@
+import type { Card } from "../shared/card";
+
+const SUIT_NAMES: Record<string, string> = {
+   h: "hearts",
+   d: "diamonds",
+   c: "clubs",
+   s: "spades",
+};
+
+const RANK_NAMES: Record<number, string> = {
+   1: "A",
+   11: "J",
+   12: "Q",
+   13: "K",
+};
+
+export function cardImagePath(card: Card): string {
+   if (card.type === "Joker")
+      return `/cards/card_joker_${card.color.toLowerCase()}.png`;
+
+   if (card.type === "Playing") {
+      const rank = RANK_NAMES[card.rank] || String(card.rank).padStart(2, "0");
+      return `/cards/card_${SUIT_NAMES[card.suit]}_${rank}.png`;
+   }
+
+   return "/cards/card_back.png";
+}
@@ -1,6 +1,8 @@
 import * as THREE from "three";
 import type { Card } from "../shared/card";
-import type { Game } from "../shared/game";
+import type { GameState } from "../shared/definition";
+import { Hand } from "../shared/game";
+import { cardImagePath } from "./card-images";
 import { gs } from "./session";
 
 type CardMesh = THREE.Mesh<
@@ -188,6 +190,24 @@ export class CardThreeUI {
       return (absoluteSeat - playerGameIndex + totalPlayers) % totalPlayers;
    }
 
+   // Where a seat's hand sits on screen, relative to the container
+   public seatScreenPosition(seat: number): { x: number; y: number } {
+      const totalPlayers = gs.room.game.players.length;
+      const seatAngle =
+         (this.getRelativeSeatIndex(seat) / totalPlayers) * Math.PI * 2;
+
+      const point = new THREE.Vector3(
+         Math.sin(seatAngle) * this.TABLE_RADIUS,
+         this.CARD_HEIGHT / 2,
+         Math.cos(seatAngle) * this.TABLE_RADIUS
+      ).project(this.camera);
+
+      return {
+         x: ((point.x + 1) / 2) * this.container.clientWidth,
+         y: ((1 - point.y) / 2) * this.container.clientHeight,
+      };
+   }
+
    private updateCardPosition(mesh: CardMesh): void {
       const seat = mesh.seat;
       const index = mesh.index;
@@ -247,29 +267,7 @@ export class CardThreeUI {
    }
 
    private getCardTexture(card: Card): THREE.Texture {
-      let path = "/cards/card_back.png";
-
-      if (card.type === "Joker") {
-         path = `/cards/card_joker_${card.color.toLowerCase()}.png`;
-      } else if (card.type === "Playing") {
-         const suitMap: Record<string, string> = {
-            h: "hearts",
-            d: "diamonds",
-            c: "clubs",
-            s: "spades",
-         };
-         const rankMap: Record<number, string> = {
-            1: "A",
-            11: "J",
-            12: "Q",
-            13: "K",
-         };
-         const rankString =
-            rankMap[card.rank] || String(card.rank).padStart(2, "0");
-         path = `/cards/card_${suitMap[card.suit]}_${rankString}.png`;
-      }
-
-      const texture = this.textureLoader.load(path);
+      const texture = this.textureLoader.load(cardImagePath(card));
 
       texture.minFilter = THREE.NearestFilter;
       texture.magFilter = THREE.NearestFilter;
@@ -308,7 +306,7 @@ export class CardThreeUI {
       return mesh;
    }
 
-   public renderHand(game: Game): void {
+   public renderHand(game: GameState): void {
       for (const mesh of this.cardMeshes) {
          this.scene.remove(mesh);
          mesh.geometry.dispose();
@@ -343,6 +341,26 @@ export class CardThreeUI {
          });
    }
 
+   // Replace the selection with these cards from the player's own seat
+   public selectCards(cards: Card[]): void {
+      this.clearSelection();
+
+      const remaining = [...cards];
+      for (const mesh of this.cardMeshes) {
+         if (mesh.seat !== gs.player.index) continue;
+
+         const index = remaining.findIndex((card) =>
+            Hand.cardsEqual(card, mesh.card)
+         );
+         if (index === -1) continue;
+
+         remaining.splice(index, 1);
+         this.selectedCards.add(`${mesh.seat}-${mesh.index}`);
+         mesh.selected = true;
+         this.updateCardPosition(mesh);
+      }
+   }
+
    public clearSelection(): void {
       this.selectedCards.clear();
       for (const mesh of this.cardMeshes) {
@@ -382,6 +400,16 @@ export function getSelectedCardsFromUI(): Card[] {
    return cardUI ? cardUI.getSelectedCards() : [];
 }
 
+export function selectCardsInUI(cards: Card[]): void {
+   if (cardUI) cardUI.selectCards(cards);
+}
+
+export function seatScreenPosition(
+   seat: number
+): { x: number; y: number } | undefined {
+   return cardUI?.seatScreenPosition(seat);
+}
+
 export function clearCardSelection(): void {
    if (cardUI) cardUI.clearSelection();
 }
@@ -0,0 +1,299 @@
+import { DdzAction, douDizhu } from "../shared/ddz";
+import type { Game } from "../shared/game";
+import { BidKind, GamePhase } from "../shared/game";
+import type { GameRules } from "../shared/rules";
+import { BiddingMode } from "../shared/rules";
+import {
+   clearCardSelection,
+   getSelectedCardsFromUI,
+   selectCardsInUI,
+} from "./card-three-ui";
+import { escapeHtml, formatBid, formatCards, formatPlayType } from "./format";
+import { checkAction, isPlayersTurn, showNotification } from "./game-ui";
+import type { GameView } from "./game-view";
+import { gs } from "./session";
+
+// Position in the legal move list, reset whenever the game changes
+let hintIndex = 0;
+
+export const ddzView: GameView<Game> = {
+   gameId: douDizhu.id,
+
+   init(current) {
+      const playCardsButton = document.querySelector("#play-cards-btn");
+      playCardsButton?.addEventListener("click", () => {
+         handlePlayCards();
+      });
+
+      const hintButton = document.querySelector("#hint-btn");
+      hintButton?.addEventListener("click", () => {
+         handleHint(current());
+      });
+
+      const passButton = document.querySelector("#pass-btn");
+      passButton?.addEventListener("click", () => {
+         handlePass();
+      });
+
+      // Bid buttons are built per room rules in updateBiddingUI
+      const bidPassButton = document.querySelector("#bid-pass-btn");
+      bidPassButton?.addEventListener("click", () => handleBid(0));
+   },
+
+   render(game) {
+      const playCardsButton = document.querySelector(
+         "#play-cards-btn"
+      ) as HTMLButtonElement;
+      const passButton = document.querySelector(
+         "#pass-btn"
+      ) as HTMLButtonElement;
+      const hintButton = document.querySelector(
+         "#hint-btn"
+      ) as HTMLButtonElement;
+      const biddingSection = document.querySelector(
+         "#bidding-section"
+      ) as HTMLDivElement;
+
+      switch (game.phase) {
+         case GamePhase.BIDDING: {
+            playCardsButton.style.display = "none";
+            passButton.style.display = "none";
+            hintButton.style.display = "none";
+
+            biddingSection.style.display = "block";
+            updateBiddingUI(game);
+
+            break;
+         }
+         case GamePhase.PLAYING: {
+            biddingSection.style.display = "none";
+
+            const isMyTurn = isPlayersTurn();
+
+            playCardsButton.style.display = isMyTurn ? "block" : "none";
+            playCardsButton.disabled = !isMyTurn;
+
+            passButton.style.display = isMyTurn ? "block" : "none";
+            passButton.disabled = !isMyTurn || !game.canPass();
+
+            hintButton.style.display = isMyTurn ? "block" : "none";
+            hintIndex = 0;
+
+            updateLastPlayUI(game);
+
+            break;
+         }
+         case GamePhase.FINISHED: {
+            this.hideControls();
+            break;
+         }
+      }
+   },
+
+   hideControls() {
+      for (const selector of [
+         "#play-cards-btn",
+         "#pass-btn",
+         "#hint-btn",
+         "#bidding-section",
+      ]) {
+         const control = document.querySelector(selector) as HTMLElement;
+         control.style.display = "none";
+      }
+   },
+
+   handleKey(game, key) {
+      switch (key) {
+         // Space to play selected cards
+         case " ":
+         case "Enter": {
+            handlePlayCards();
+            return true;
+         }
+         // H to cycle hints
+         case "h":
+         case "H": {
+            handleHint(game);
+            return true;
+         }
+         // P to pass
+         case "p":
+         case "P": {
+            handlePass();
+            return true;
+         }
+         default: {
+            return false;
+         }
+      }
+   },
+
+   describeUpdate(previous, game, action) {
+      const lines: string[] = [];
+      if (game.redeals > previous.redeals)
+         lines.push("Everyone passed, redealing");
+
+      if (
+         action.type === DdzAction.BID &&
+         previous.phase === GamePhase.BIDDING &&
+         game.phase === GamePhase.PLAYING
+      )
+         lines.push(`${game.landlord?.name} is the landlord!`);
+
+      return lines;
+   },
+
+   revealedSeed(game) {
+      return game.seed;
+   },
+
+   playerBadge(game, id) {
+      return game.landlord?.id === id ? " 👑" : "";
+   },
+
+   infoRows(game) {
+      const landlordName = game.landlord?.id
+         ? gs.room.players.get(game.landlord.id)?.name || "Unknown"
+         : "None";
+
+      return [
+         ["Phase", game.phase],
+         ["Landlord", landlordName],
+         ["Bet", `${game.bet} × ${game.multiplier}`],
+         ["Rules", formatRules(game.rules)],
+      ];
+   },
+};
+
+// MARK: Game Actions
+
+function handlePlayCards(): void {
+   const selectedCards = getSelectedCardsFromUI();
+
+   if (selectedCards.length === 0) {
+      showNotification("Please select cards to play");
+      return;
+   }
+
+   const action = { type: DdzAction.PLAY, data: selectedCards };
+   const error = checkAction(action);
+   if (error) {
+      showNotification(error);
+      return;
+   }
+
+   // Emit to server
+   gs.socket.emit("game-action", action);
+   clearCardSelection();
+}
+
+function handlePass(): void {
+   const action = { type: DdzAction.PASS };
+   const error = checkAction(action);
+   if (error) {
+      showNotification(error);
+      return;
+   }
+
+   gs.socket.emit("game-action", action);
+   clearCardSelection();
+}
+
+// Select the next legal move, weakest first
+function handleHint(game: Game): void {
+   if (!isPlayersTurn() || game.phase !== GamePhase.PLAYING) return;
+
+   const moves = game.legalMoves(gs.player.hand);
+   if (moves.length === 0) {
+      showNotification("No cards can beat the last play");
+      return;
+   }
+
+   selectCardsInUI(moves[hintIndex % moves.length].cards);
+   hintIndex++;
+}
+
+function handleBid(amount: number): void {
+   gs.socket.emit("game-action", { type: DdzAction.BID, data: amount });
+}
+
+// MARK: Table UI
+
+function updateBiddingUI(game: Game): void {
+   const isMyTurn = isPlayersTurn();
+   const currentBet = game.bet;
+
+   const bidButtons = document.querySelector("#bid-buttons") as HTMLDivElement;
+   const bidPassButton = document.querySelector(
+      "#bid-pass-btn"
+   ) as HTMLButtonElement;
+
+   bidButtons.innerHTML = "";
+
+   if (game.rules.bidding === BiddingMode.ROB) {
+      const called = game.bids.some((bid) => bid.kind === BidKind.CALL);
+      const robButton = document.createElement("button");
+      robButton.id = "rob-btn";
+      robButton.textContent = called ? "Rob Landlord" : "Call Landlord";
+      robButton.disabled = !isMyTurn;
+      robButton.addEventListener("click", () => handleBid(1));
+      bidButtons.append(robButton);
+      bidPassButton.textContent = called ? "Don't Rob" : "Don't Call";
+   } else {
+      for (const bid of game.rules.bids) {
+         const bidButton = document.createElement("button");
+         bidButton.id = `bid-${bid}-btn`;
+         bidButton.textContent = `Bid ${bid}`;
+         bidButton.disabled = !isMyTurn || currentBet >= bid;
+         bidButton.addEventListener("click", () => handleBid(bid));
+         bidButtons.append(bidButton);
+      }
+      bidPassButton.textContent = "Pass";
+   }
+
+   bidPassButton.disabled = !isMyTurn;
+
+   const biddingInfo = document.querySelector("#bidding-info");
+   if (biddingInfo) {
+      const history = game.bids.map(
+         (bid) => `${game.players[bid.playerIndex].name}: ${formatBid(bid)}`
+      );
+      biddingInfo.innerHTML = [
+         game.rules.bidding === BiddingMode.ROB
+            ? `Multiplier: ×${game.multiplier}`
+            : `Current bid: ${currentBet}`,
+         ...history,
+      ]
+         .map((line) => `<div>${escapeHtml(line)}</div>`)
+         .join("");
+   }
+}
+
+function updateLastPlayUI(game: Game): void {
+   const lastPlaySection = document.querySelector(
+      "#last-play"
+   ) as HTMLDivElement;
+
+   if (!game.lastPlay) {
+      lastPlaySection.style.display = "none";
+      return;
+   }
+
+   const playerName = game.players[game.lastPlay.playerIndex].name || "Unknown";
+
+   lastPlaySection.innerHTML = `
+      <div class="last-play-header">Last Play by ${escapeHtml(playerName)}:</div>
+      <div class="last-play-cards">${formatCards(game.lastPlay.cards)}</div>
+      <div class="last-play-type">${formatPlayType(game.lastPlay.type)}</div>
+   `;
+   lastPlaySection.style.display = "block";
+}
+
+function formatRules(rules: GameRules): string {
+   const cap = rules.straightCap === 1 ? "A" : String(rules.straightCap);
+   const bidding =
+      rules.bidding === BiddingMode.ROB
+         ? "Call & rob"
+         : `Bids ${rules.bids.join("/")}`;
+   return `${bidding} · Straights ${rules.minStraightLength}+ to ${cap}`;
+}
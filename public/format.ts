@@ -0,0 +1,97 @@
+import type { Card } from "../shared/card";
+import { DdzCount } from "../shared/ddz";
+import type { BidRecord } from "../shared/game";
+import { BidKind } from "../shared/game";
+import type { StatsSummary } from "../shared/stats";
+
+export function formatBid(bid: BidRecord): string {
+   switch (bid.kind) {
+      case BidKind.BID: {
+         return String(bid.value);
+      }
+      case BidKind.CALL: {
+         return "calls";
+      }
+      case BidKind.ROB: {
+         return "robs";
+      }
+      case BidKind.PASS: {
+         return "passes";
+      }
+   }
+}
+
+// Minutes and seconds, rounding up so 0:00 only shows once time is out
+export function formatClock(ms: number): string {
+   const seconds = Math.ceil(ms / 1000);
+   return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Label and value pairs, in display order
+export function formatStats(stats: StatsSummary): [string, string][] {
+   const average = stats.averageScore.toFixed(1);
+
+   return [
+      ["Rating", String(stats.rating)],
+      ["Games", String(stats.games)],
+      ["Landlord wins", formatPercent(stats.soloWinRate)],
+      ["Farmer wins", formatPercent(stats.teamWinRate)],
+      ["Bid success", formatPercent(stats.countWinRates[DdzCount.BIDS])],
+      ["Bombs", String(stats.counts[DdzCount.BOMBS] ?? 0)],
+      ["Average score", stats.averageScore > 0 ? `+${average}` : average],
+   ];
+}
+
+function formatPercent(rate: number | undefined): string {
+   return rate === undefined ? "–" : `${Math.round(rate * 100)}%`;
+}
+
+export function formatCards(cards: Card[]): string {
+   return cards
+      .map((card) => {
+         if (card.type === "Joker") return card.color === "BLACK" ? "🃏" : "🃟";
+
+         if (card.type === "Playing") {
+            const suitSymbols = { h: "♥", d: "♦", c: "♣", s: "♠" };
+            const rankSymbols: Record<number, string> = {
+               1: "A",
+               11: "J",
+               12: "Q",
+               13: "K",
+            };
+            const rank = rankSymbols[card.rank] || card.rank.toString();
+            return `${rank}${suitSymbols[card.suit]}`;
+         }
+         return "?";
+      })
+      .join(" ");
+}
+
+export function formatPlayType(type: string): string {
+   const typeNames: Record<string, string> = {
+      solo: "Single",
+      pair: "Pair",
+      triple: "Triple",
+      triple_with_single: "Triple + Single",
+      triple_with_pair: "Triple + Pair",
+      straight: "Straight",
+      pair_straight: "Pair Straight",
+      triple_straight: "Airplane",
+      airplane_with_singles: "Airplane + Singles",
+      airplane_with_pairs: "Airplane + Pairs",
+      quad_with_singles: "Four + Two Singles",
+      quad_with_pairs: "Four + Two Pairs",
+      bomb: "Bomb 💣",
+      rocket: "Rocket 🚀",
+   };
+   return typeNames[type] || type;
+}
+
+export function escapeHtml(text: string): string {
+   return text
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+      .replaceAll("'", "&#039;");
+}
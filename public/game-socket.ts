@@ -1,44 +1,79 @@
-import type { Card } from "../shared/card";
-import type { SerializedGame } from "../shared/game";
-import { Game } from "../shared/game";
-import { Player, type PlayerStatus } from "../shared/player";
-import { Room, RoomStatus, type SerializedRoom } from "../shared/room";
+import {
+   Chat,
+   playerMessage,
+   spectatorMessage,
+   systemMessage,
+} from "../shared/chat";
+import type { SerializedClock } from "../shared/clock";
+import { TurnClock } from "../shared/clock";
+import type { GameAction } from "../shared/definition";
+import { type BotLevel, Player, type PlayerStatus } from "../shared/player";
+import {
+   Room,
+   RoomStatus,
+   type ScoreEntry,
+   type SerializedRoom,
+} from "../shared/room";
+import type { ActionErrorCode } from "../shared/validation";
 import {
    endGameUI,
+   isSpectating,
+   requestRoomStats,
+   showEmote,
+   showNotification,
    showRoomElements,
+   startClockCountdown,
    startGameUI,
    updateUIAllChat,
    updateUIGame,
    updateUIPlayerList,
    updateUIPushChat,
 } from "./game-ui";
+import { getGameView } from "./game-views";
+import { leaveRoom } from "./menu-ui";
 import { gs } from "./session";
 import { updateURL } from "./url";
 
 export function initGameSocket(): void {
    gs.socket.on("sent-player", (name: string) => {
       gs.player.name = name;
-   });
 
-   gs.socket.on("joined-room", (raw: SerializedRoom) => {
-      const room = Room.deserialize(raw);
-      gs.room = room;
-      gs.player = room.players.get(gs.player.id) ?? gs.player;
-      showRoomElements();
-      updateUIPlayerList();
-      updateUIAllChat();
-      updateUIGame();
-
-      if (room.status === RoomStatus.PLAYING) startGameUI();
-      else endGameUI();
-
-      updateURL(room.code);
+      const nameInput = document.querySelector(
+         "#player-name-input"
+      ) as HTMLInputElement;
+      nameInput.value = name;
    });
 
-   gs.socket.on("p-joined-room", (id: string, name: string) => {
+   gs.socket.on(
+      "joined-room",
+      (raw: SerializedRoom, spectatorChat?: string) => {
+         const room = Room.deserialize(raw);
+         if (spectatorChat)
+            room.spectatorChat = Chat.deserialize(spectatorChat);
+         gs.room = room;
+         gs.player = room.players.get(gs.player.id) ?? gs.player;
+         showRoomElements();
+         updateUIPlayerList();
+         updateUIAllChat();
+         updateUIGame();
+         requestRoomStats();
+
+         if (room.status === RoomStatus.PLAYING) {
+            startGameUI();
+            startClockCountdown();
+         } else {
+            endGameUI();
+         }
+
+         updateURL(room.code, isSpectating());
+      }
+   );
+
+   gs.socket.on("p-joined-room", (id: string, name: string, bot?: BotLevel) => {
       if (id === gs.player.id) return;
-      gs.room.addPlayer(new Player(id, name));
+      gs.room.addPlayer(new Player(id, name, bot));
       updateUIPlayerList();
+      if (!bot) gs.socket.emit("get-stats", [id]);
    });
 
    gs.socket.on("p-left-room", (id: string) => {
@@ -46,6 +81,36 @@ export function initGameSocket(): void {
       updateUIPlayerList();
    });
 
+   gs.socket.on("s-joined-room", (id: string, name: string) => {
+      gs.room.addSpectator(new Player(id, name));
+      updateUIPlayerList();
+   });
+
+   gs.socket.on("s-left-room", (id: string) => {
+      gs.room.removeSpectator(id);
+      updateUIPlayerList();
+   });
+
+   // Owner changes to the lobby; chat and feed state carry over
+   gs.socket.on("updated-room", (raw: SerializedRoom) => {
+      const room = Room.deserialize(raw);
+      room.chat = gs.room.chat;
+      room.spectatorChat = gs.room.spectatorChat;
+      gs.room = room;
+      gs.player = room.players.get(gs.player.id) ?? gs.player;
+      updateUIGame();
+   });
+
+   gs.socket.on("kicked-room", () => {
+      showNotification("You were removed from the room");
+      leaveRoom();
+   });
+
+   gs.socket.on("closed-room", () => {
+      showNotification("The room has closed");
+      leaveRoom();
+   });
+
    gs.socket.on("p-set-status", (id: string, status: PlayerStatus) => {
       const player = gs.room.getPlayer(id);
       if (!player) return;
@@ -53,47 +118,111 @@ export function initGameSocket(): void {
       updateUIPlayerList();
    });
 
-   gs.socket.on("started-room", (raw: SerializedGame) => {
-      gs.room.game = Game.deserialize(raw);
-      gs.player =
-         gs.room.game.players.find((p) => p.id === gs.player.id) ?? gs.player;
-
-      for (const player of gs.room.game.players.values())
-         console.log(player.hand);
-
+   gs.socket.on("started-room", (raw: unknown, seedHash?: string) => {
+      gs.room.status = RoomStatus.PLAYING;
+      gs.room.seedHash = seedHash;
+      setGame(raw);
       startGameUI();
    });
 
-   gs.socket.on("p-bet-landlord", (bet: number) => {
-      gs.room.game.betLandlord(bet);
-      updateUIGame();
+   gs.socket.on(
+      "updated-game",
+      (raw: unknown, _playerIndex: number, action: GameAction) => {
+         const previous = gs.room.game;
+         setGame(raw);
+
+         const game = gs.room.game;
+         const view = getGameView(gs.room.definition);
+         for (const line of view.describeUpdate(previous, game, action))
+            updateUIPushChat(systemMessage(line));
+
+         const seed = view.revealedSeed(game);
+         if (seed && !view.revealedSeed(previous)) void announceSeed(seed);
+
+         updateUIGame();
+      }
+   );
+
+   gs.socket.on("updated-clock", (raw: SerializedClock) => {
+      gs.room.clock = TurnClock.deserialize(raw);
+      updateUIPlayerList();
+      startClockCountdown();
    });
 
-   gs.socket.on("p-became-landlord", (playerId: string, bottom: Card[]) => {
-      gs.room.game.becomeLandlord(bottom);
-      updateUIPushChat({
-         id: "server",
-         message: `${gs.room.players.get(playerId)?.name} is the landlord!`,
-      });
+   gs.socket.on(
+      "ended-room",
+      (
+         reason: string,
+         scoreboard: Record<string, ScoreEntry>,
+         replayId?: string
+      ) => {
+         gs.room.scoreboard = new Map(Object.entries(scoreboard));
+         gs.room.endRoom();
+         endGameUI();
+         updateUIPushChat(systemMessage(reason));
+         requestRoomStats();
+
+         if (replayId) {
+            updateUIPushChat(
+               systemMessage(
+                  `Replay: ${globalThis.location.origin}/replays/${replayId}`
+               )
+            );
+         }
+      }
+   );
+
+   gs.socket.on("action-error", (_code: ActionErrorCode, message: string) => {
+      showNotification(message);
    });
 
-   gs.socket.on("p-played-cards", (cards: Card[]) => {
-      gs.room.game.playCards(cards, false);
+   gs.socket.on("p-sent-chat", (id: string, message: string) => {
+      const chatMessage = playerMessage(id, message);
+      gs.room.chat.push(chatMessage);
+      updateUIPushChat(chatMessage);
+   });
 
-      updateUIGame();
+   gs.socket.on("s-sent-chat", (id: string, message: string) => {
+      const chatMessage = spectatorMessage(id, message);
+      gs.room.spectatorChat.push(chatMessage);
+      updateUIPushChat(chatMessage);
    });
 
-   gs.socket.on("ended-room", (reason: string) => {
-      gs.room.endRoom();
-      endGameUI();
-      updateUIPushChat({
-         id: "server",
-         message: reason,
-      });
+   gs.socket.on("sent-system-chat", (message: string) => {
+      const chatMessage = systemMessage(message);
+      gs.room.chat.push(chatMessage);
+      updateUIPushChat(chatMessage);
    });
 
-   gs.socket.on("p-sent-chat", (id: string, message: string) => {
-      gs.room.chat.push(id, message);
-      updateUIPushChat({ id, message });
+   gs.socket.on("p-sent-emote", (id: string, emote: string) => {
+      showEmote(id, emote);
    });
 }
+
+// Reveal the round's seed and check it against the hash sent at the deal
+async function announceSeed(seed: string): Promise<void> {
+   const expected = gs.room.seedHash;
+   const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(seed)
+   );
+   const actual = [...new Uint8Array(digest)]
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+
+   let verdict = "no hash was published for this deal";
+   if (expected) {
+      verdict =
+         actual === expected
+            ? "matches the hash published at the deal"
+            : "does NOT match the hash published at the deal!";
+   }
+
+   updateUIPushChat(systemMessage(`Deal seed: ${seed} (${verdict})`));
+}
+
+function setGame(raw: unknown): void {
+   gs.room.game = gs.room.definition.deserialize(raw);
+   gs.player =
+      gs.room.game.players.find((p) => p.id === gs.player.id) ?? gs.player;
+}
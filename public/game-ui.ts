@@ -1,19 +1,26 @@
 // game-ui.ts
-import type { Card } from "../shared/card";
 import type { ChatMessage } from "../shared/chat";
-import { PlayerStatus } from "../shared/player";
+import { ChatMessageType, EMOTES } from "../shared/chat";
+import type { GameAction } from "../shared/definition";
+import { BotLevel, PlayerStatus } from "../shared/player";
+import { RoomStatus } from "../shared/room";
+import { isActionError, validateAction } from "../shared/validation";
 import {
    clearCardSelection,
    disposeCardUI,
-   getSelectedCardsFromUI,
    initCardUI,
+   seatScreenPosition,
    updateCardDisplay,
 } from "./card-three-ui";
-import { leaveRoom } from "./menu-ui";
-import { gs } from "./session";
+import { escapeHtml, formatClock, formatStats } from "./format";
+import type { GameView } from "./game-view";
+import { getGameView, listGameViews } from "./game-views";
+import { leaveRoom, openRulesModal } from "./menu-ui";
+import { gs, sn } from "./session";
 
 let pingIntervalID: NodeJS.Timeout;
 let pingStartTime: number = 0;
+let clockIntervalID: NodeJS.Timeout;
 
 export function initGameControls(): void {
    const leaveGameButton = document.querySelector("#leave-game-btn");
@@ -33,28 +40,39 @@ export function initGameControls(): void {
       event.stopPropagation();
    });
 
-   // Add play cards button event listener
-   const playCardsButton = document.querySelector("#play-cards-btn");
-   playCardsButton?.addEventListener("click", () => {
-      handlePlayCards();
-   });
+   const emoteBar = document.querySelector("#emote-bar") as HTMLDivElement;
+   for (const emote of EMOTES) {
+      const emoteButton = document.createElement("button");
+      emoteButton.className = "emote-btn";
+      emoteButton.textContent = emote;
+      emoteButton.addEventListener("click", () => {
+         gs.socket.emit("send-emote", emote);
+      });
+      emoteBar.append(emoteButton);
+   }
 
-   // Add pass button event listener
-   const passButton = document.querySelector("#pass-btn");
-   passButton?.addEventListener("click", () => {
-      handlePass();
+   // Each game wires its own table controls
+   for (const view of listGameViews()) view.init(() => gs.room.game);
+
+   const addBotButton = document.querySelector("#add-bot-btn");
+   addBotButton?.addEventListener("click", () => {
+      const levelSelect = document.querySelector(
+         "#bot-level-select"
+      ) as HTMLSelectElement;
+      gs.socket.emit("add-bot", levelSelect.value as BotLevel);
    });
 
-   // Add bid buttons
-   const bid1Button = document.querySelector("#bid-1-btn");
-   const bid2Button = document.querySelector("#bid-2-btn");
-   const bid3Button = document.querySelector("#bid-3-btn");
-   const bidPassButton = document.querySelector("#bid-pass-btn");
+   const roomSettingsButton = document.querySelector("#room-settings-btn");
+   roomSettingsButton?.addEventListener("click", () => {
+      openRulesModal(true);
+   });
 
-   bid1Button?.addEventListener("click", () => handleBid(1));
-   bid2Button?.addEventListener("click", () => handleBid(2));
-   bid3Button?.addEventListener("click", () => handleBid(3));
-   bidPassButton?.addEventListener("click", () => handleBid(0));
+   const lockRoomButton = document.querySelector("#lock-room-btn");
+   lockRoomButton?.addEventListener("click", () => {
+      gs.socket.emit("update-room", {
+         settings: { locked: !gs.room.settings.locked },
+      });
+   });
 
    document.addEventListener("keydown", (event: Event) => {
       const keyEvent = event as KeyboardEvent;
@@ -63,46 +81,32 @@ export function initGameControls(): void {
       const target = keyEvent.target as HTMLElement;
       if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") return;
 
-      // Space to play selected cards
-      if (keyEvent.key === " " || keyEvent.key === "Enter") {
-         keyEvent.preventDefault();
-         handlePlayCards();
-      }
-
-      // P to pass
-      if (keyEvent.key === "p" || keyEvent.key === "P") {
+      // Shortcuts belong to the game being played
+      if (!sn.room) return;
+      if (gameView().handleKey(gs.room.game, keyEvent.key))
          keyEvent.preventDefault();
-         handlePass();
-      }
    });
 }
 
 // MARK: Game Actions
 
-function handlePlayCards(): void {
-   const selectedCards = getSelectedCardsFromUI();
-
-   if (selectedCards.length === 0) {
-      showNotification("Please select cards to play");
-      return;
-   }
-
-   // Emit to server
-   gs.socket.emit("play-cards", selectedCards);
-   clearCardSelection();
+// Run the server's checks locally to explain a rejection before sending
+export function checkAction(action: GameAction): string | undefined {
+   const checked = validateAction(
+      gs.room.definition,
+      gs.room.game,
+      gs.player.index,
+      action
+   );
+   return isActionError(checked) ? checked.message : undefined;
 }
 
-function handlePass(): void {
-   gs.socket.emit("play-cards", []);
-   clearCardSelection();
+export function isPlayersTurn(): boolean {
+   return gs.room.game.currentIndex === gs.player.index;
 }
 
-function handleBid(amount: number): void {
-   gs.socket.emit("bet-landlord", amount);
-}
-
-function isPlayersTurn(): boolean {
-   return gs.room.game.current.id === gs.player.id;
+function gameView(): GameView {
+   return getGameView(gs.room.definition);
 }
 
 // MARK: Ping Indicator
@@ -202,18 +206,10 @@ function resetGameButtons(): void {
    const readyButton = document.querySelector(
       "#ready-btn"
    ) as HTMLButtonElement;
-   const playCardsButton = document.querySelector(
-      "#play-cards-btn"
-   ) as HTMLButtonElement;
-   const passButton = document.querySelector("#pass-btn") as HTMLButtonElement;
-   const biddingSection = document.querySelector(
-      "#bidding-section"
-   ) as HTMLDivElement;
 
    readyButton.style.display = "block";
-   playCardsButton.style.display = "none";
-   passButton.style.display = "none";
-   biddingSection.style.display = "none";
+   gameView().hideControls();
+   hideSpectatorControls();
 }
 
 export function updateUIPlayerList(): void {
@@ -223,6 +219,7 @@ export function updateUIPlayerList(): void {
       for (const [id, player] of gs.room.players) {
          const playerDiv = document.createElement("div");
          playerDiv.className = "player-item";
+         playerDiv.dataset.id = id;
 
          let statusIcon = "";
          let statusClass = "";
@@ -246,158 +243,228 @@ export function updateUIPlayerList(): void {
          }
 
          const isCurrentPlayer = id === gs.player.id;
-         const isLandlord = gs.room.game.landlord?.id === id;
+         const badge = gameView().playerBadge(gs.room.game, id);
+         const seat = gs.room.game.players.find((p) => p.id === id) ?? player;
+         const points = gs.room.scoreboard.get(id)?.points ?? 0;
+
+         const botBadge = player.bot
+            ? `<span class="bot-badge" title="${formatBotLevel(player.bot)} bot">BOT</span>`
+            : "";
+         const ownerBadge = gs.room.isOwner(id)
+            ? `<span class="owner-badge" title="Room owner">OWNER</span>`
+            : "";
 
          playerDiv.innerHTML = `
             <span class="status-checkbox ${statusClass}">${statusIcon}</span>
             <div class="player-name" style="${
                isCurrentPlayer ? "font-weight: bold;" : ""
-            }">${player.name}${isLandlord ? " 👑" : ""}</div>
-            <div class="card-count">${player.hand.cards.length || 0}</div>
+            }">${escapeHtml(player.name)}${ownerBadge}${botBadge}${badge}</div>
+            ${isOnClock(id) ? '<div class="turn-clock"></div>' : ""}
+            <div class="player-score">${points > 0 ? "+" : ""}${points}</div>
+            <div class="card-count">${seat.hand.cards.length || 0}</div>
          `;
 
+         if (!player.bot) playerDiv.title = statsTooltip(id);
+
+         if (player.bot && isOwnerInLobby()) {
+            const removeButton = document.createElement("button");
+            removeButton.className = "remove-bot-btn";
+            removeButton.title = "Remove bot";
+            removeButton.textContent = "×";
+            removeButton.addEventListener("click", () => {
+               gs.socket.emit("remove-bot", id);
+            });
+            playerDiv.append(removeButton);
+         } else if (!player.bot && id !== gs.player.id && isOwnerInLobby()) {
+            playerDiv.append(kickButton(id));
+         }
+
          playerList.append(playerDiv);
       }
    }
+
+   updateSpectatorList();
+   updateClockDisplay();
+   updateBotControls();
+   updateOwnerControls();
 }
 
-// MARK: Game State UI
+// Fetch stats for the room's humans; the list refreshes when they arrive
+export function requestRoomStats(): void {
+   const ids = [...gs.room.players.values()]
+      .filter((player) => !player.bot)
+      .map((player) => player.id);
+   gs.socket.emit("get-stats", ids);
+}
 
-export function updateUIGame(): void {
-   const game = gs.room.game;
+function statsTooltip(id: string): string {
+   const stats = gs.stats.get(id);
+   if (!stats) return "No finished games yet";
 
-   updateUIPlayerList();
-   updateCardDisplay();
+   return formatStats(stats)
+      .map(([label, value]) => `${label}: ${value}`)
+      .join("\n");
+}
 
-   // Show/hide UI elements based on game phase
-   const readyButton = document.querySelector(
-      "#ready-btn"
-   ) as HTMLButtonElement;
-   const playCardsButton = document.querySelector(
-      "#play-cards-btn"
-   ) as HTMLButtonElement;
-   const passButton = document.querySelector("#pass-btn") as HTMLButtonElement;
-   const biddingSection = document.querySelector(
-      "#bidding-section"
-   ) as HTMLDivElement;
+function kickButton(id: string): HTMLButtonElement {
+   const button = document.createElement("button");
+   button.className = "kick-btn";
+   button.title = "Remove from room";
+   button.textContent = "×";
+   button.addEventListener("click", () => {
+      gs.socket.emit("kick-player", id);
+   });
+   return button;
+}
 
-   switch (game.phase) {
-      case "bidding": {
-         readyButton.style.display = "none";
-         playCardsButton.style.display = "none";
-         passButton.style.display = "none";
+function updateSpectatorList(): void {
+   const spectatorList = document.querySelector(
+      "#spectator-list"
+   ) as HTMLDivElement;
 
-         biddingSection.style.display = "block";
-         updateBiddingUI();
+   spectatorList.innerHTML = "";
+   if (gs.room.spectators.size === 0) return;
+
+   const title = document.createElement("div");
+   title.className = "spectator-title";
+   title.textContent = `Watching (${gs.room.spectators.size})`;
+   spectatorList.append(title);
+
+   // Owners may remove spectators even mid-game
+   const isOwner = gs.room.isOwner(gs.player.id);
+   for (const [id, spectator] of gs.room.spectators) {
+      const item = document.createElement("div");
+      item.className = "spectator-item";
+      item.textContent = spectator.name;
+      if (isOwner) item.append(kickButton(id));
+      spectatorList.append(item);
+   }
+}
 
-         break;
-      }
-      case "playing": {
-         readyButton.style.display = "none";
-         biddingSection.style.display = "none";
+export function isSpectating(): boolean {
+   return gs.room.isSpectator(gs.player.id);
+}
 
-         const isMyTurn = isPlayersTurn();
+// Spectators only watch, so every table control stays hidden
+function hideSpectatorControls(): void {
+   if (!isSpectating()) return;
 
-         playCardsButton.style.display = isMyTurn ? "block" : "none";
-         playCardsButton.disabled = !isMyTurn;
+   const readyButton = document.querySelector("#ready-btn") as HTMLElement;
+   readyButton.style.display = "none";
+   gameView().hideControls();
+}
 
-         passButton.style.display = isMyTurn ? "block" : "none";
-         passButton.disabled = !isMyTurn;
+function isOwnerInLobby(): boolean {
+   return gs.room.status === RoomStatus.LOBBY && gs.room.isOwner(gs.player.id);
+}
 
-         updateLastPlayUI();
+function updateBotControls(): void {
+   const botControls = document.querySelector(
+      "#bot-controls"
+   ) as HTMLDivElement;
 
-         break;
-      }
-      case "finished": {
-         readyButton.style.display = "block";
-         playCardsButton.style.display = "none";
-         passButton.style.display = "none";
-         biddingSection.style.display = "none";
+   botControls.style.display =
+      isOwnerInLobby() && !gs.room.isFull() && gs.room.definition.botAction
+         ? "flex"
+         : "none";
+}
 
-         break;
-      }
-   }
+function updateOwnerControls(): void {
+   const ownerControls = document.querySelector(
+      "#owner-controls"
+   ) as HTMLDivElement;
+   ownerControls.style.display = isOwnerInLobby() ? "flex" : "none";
 
-   updateGameInfoUI();
+   const lockButton = document.querySelector(
+      "#lock-room-btn"
+   ) as HTMLButtonElement;
+   lockButton.textContent = gs.room.settings.locked ? "Unlock" : "Lock";
 }
 
-function updateBiddingUI(): void {
-   const game = gs.room.game;
+// MARK: Turn Clock
 
-   const isMyTurn = isPlayersTurn();
-   const currentBet = game.bet;
+function isOnClock(id: string): boolean {
+   const clock = gs.room.clock;
+   const game = gs.room.game;
+   return (
+      clock !== undefined &&
+      gs.room.status === RoomStatus.PLAYING &&
+      clock.seatIndex === game.currentIndex &&
+      game.players[clock.seatIndex]?.id === id
+   );
+}
 
-   const bid1Button = document.querySelector("#bid-1-btn") as HTMLButtonElement;
-   const bid2Button = document.querySelector("#bid-2-btn") as HTMLButtonElement;
-   const bid3Button = document.querySelector("#bid-3-btn") as HTMLButtonElement;
-   const bidPassButton = document.querySelector(
-      "#bid-pass-btn"
-   ) as HTMLButtonElement;
+function updateClockDisplay(): void {
+   const clock = gs.room.clock;
+   const display = document.querySelector(".turn-clock");
+   if (!clock || !display) return;
 
-   bid1Button.disabled = !isMyTurn || currentBet >= 1;
-   bid2Button.disabled = !isMyTurn || currentBet >= 2;
-   bid3Button.disabled = !isMyTurn || currentBet >= 3;
-   bidPassButton.disabled = !isMyTurn;
+   const bank = clock.bankRemaining();
+   display.textContent =
+      formatClock(clock.moveRemaining()) +
+      (bank > 0 ? ` +${formatClock(bank)}` : "");
+   display.classList.toggle("low", clock.remaining() <= 10_000);
+}
 
-   const biddingInfo = document.querySelector("#bidding-info");
-   if (biddingInfo) biddingInfo.textContent = `Current bid: ${currentBet}`;
+export function startClockCountdown(): void {
+   stopClockCountdown();
+   updateClockDisplay();
+   clockIntervalID = globalThis.setInterval(updateClockDisplay, 250);
 }
 
-function updateLastPlayUI(): void {
-   const game = gs.room.game;
+export function stopClockCountdown(): void {
+   clearInterval(clockIntervalID);
+}
 
-   const lastPlaySection = document.querySelector(
-      "#last-play"
-   ) as HTMLDivElement;
+// MARK: Game State UI
 
-   if (!game.lastPlay) {
-      lastPlaySection.style.display = "none";
-      return;
-   }
+export function updateUIGame(): void {
+   updateUIPlayerList();
+   updateCardDisplay();
 
-   const playerName =
-      gs.room.game.players[game.lastPlay.playerIndex].name || "Unknown";
+   // Ready only matters between games; the view shows the rest
+   const readyButton = document.querySelector(
+      "#ready-btn"
+   ) as HTMLButtonElement;
+   readyButton.style.display =
+      gs.room.status === RoomStatus.PLAYING ? "none" : "block";
+   gameView().render(gs.room.game);
 
-   lastPlaySection.innerHTML = `
-      <div class="last-play-header">Last Play by ${playerName}:</div>
-      <div class="last-play-cards">${formatCards(game.lastPlay.cards)}</div>
-      <div class="last-play-type">${formatPlayType(game.lastPlay.type)}</div>
-   `;
-   lastPlaySection.style.display = "block";
+   updateGameInfoUI();
+   hideSpectatorControls();
 }
 
 function updateGameInfoUI(): void {
-   const game = gs.room.game;
-   if (game.phase === "finished") return;
+   if (gs.room.status !== RoomStatus.PLAYING) return;
 
+   const game = gs.room.game;
    const gameInfo = document.querySelector("#game-info") as HTMLDivElement;
 
-   const currentPlayerName =
-      gs.room.players.get(game.current.id)?.name || "Unknown";
-   const landlordName = game.landlord?.id
-      ? gs.room.players.get(game.landlord.id)?.name || "Unknown"
-      : "None";
+   const currentId = game.players[game.currentIndex]?.id ?? "";
+   const currentPlayerName = gs.room.players.get(currentId)?.name || "Unknown";
+   const seedHash = gs.room.seedHash;
 
+   const rows: [string, string][] = [
+      ["Current Turn", currentPlayerName],
+      ...gameView().infoRows(game),
+   ];
    gameInfo.innerHTML = `
+      ${rows.map(([label, value]) => infoRow(label, escapeHtml(value))).join("")}
       <div class="info-row">
-         <span class="info-label">Phase:</span>
-         <span class="info-value">${game.phase}</span>
-      </div>
-      <div class="info-row">
-         <span class="info-label">Current Turn:</span>
-         <span class="info-value">${currentPlayerName}</span>
-      </div>
-      <div class="info-row">
-         <span class="info-label">Landlord:</span>
-         <span class="info-value">${landlordName}</span>
-      </div>
-      <div class="info-row">
-         <span class="info-label">Bet:</span>
-         <span class="info-value">${game.bet}</span>
+         <span class="info-label">Deal hash:</span>
+         <span class="info-value" title="${seedHash ?? ""}">${seedHash?.slice(0, 12) ?? "None"}</span>
       </div>
    `;
 }
 
+function infoRow(label: string, value: string): string {
+   return `
+      <div class="info-row">
+         <span class="info-label">${label}:</span>
+         <span class="info-value">${value}</span>
+      </div>`;
+}
+
 // MARK: Chat UI
 
 export function updateUIAllChat(): void {
@@ -406,27 +473,43 @@ export function updateUIAllChat(): void {
 
    chatMessagesDiv.innerHTML = "";
    for (const message of gs.room.chat.messages) updateUIPushChat(message);
+   for (const message of gs.room.spectatorChat.messages)
+      updateUIPushChat(message);
 }
 
 export function updateUIPushChat(message: ChatMessage): void {
    const chatMessagesDiv = document.querySelector("#chat-messages");
    if (!chatMessagesDiv) return;
 
-   const getSenderName = () => {
-      if (message.id === gs.player.id) return "You";
-      if (message.id === "server") return "Server";
-      return gs.room.players.get(message.id)?.name ?? "Unknown";
-   };
-
    const messageDiv = document.createElement("div");
-   messageDiv.className = `chat-message ${
-      message.id === gs.player.id ? "own" : ""
-   } ${message.id === "server" ? "server" : ""}`.trim();
-
-   const senderName = getSenderName();
+   let senderName: string;
+   switch (message.type) {
+      case ChatMessageType.PLAYER: {
+         const isOwn = message.id === gs.player.id;
+         messageDiv.className = `chat-message${isOwn ? " own" : ""}`;
+         senderName = isOwn
+            ? "You"
+            : (gs.room.players.get(message.id)?.name ?? "Unknown");
+         break;
+      }
+      case ChatMessageType.SYSTEM: {
+         messageDiv.className = "chat-message system";
+         senderName = "Server";
+         break;
+      }
+      case ChatMessageType.SPECTATOR: {
+         const isOwn = message.id === gs.player.id;
+         messageDiv.className = `chat-message spectator${isOwn ? " own" : ""}`;
+         const name = isOwn
+            ? "You"
+            : (gs.room.spectators.get(message.id)?.name ?? "Unknown");
+         senderName = `${name} (watching)`;
+         break;
+      }
+   }
 
    messageDiv.innerHTML = `
-      <div class="chat-sender">${senderName}</div>
+      <div class="chat-sender">${escapeHtml(senderName)}</div>
       <div class="chat-text">${escapeHtml(message.message)}</div>
     `;
    chatMessagesDiv.append(messageDiv);
@@ -443,9 +526,42 @@ export function sendChatMessage(): void {
    }
 }
 
+// Float the emote over the sender's seat, or their row in the player list
+export function showEmote(id: string, emote: string): void {
+   const bubble = document.createElement("div");
+   bubble.className = "emote-bubble";
+   bubble.textContent = emote;
+
+   const seat = gs.room.game.players.findIndex((player) => player.id === id);
+   const position =
+      gs.room.status === RoomStatus.PLAYING && seat !== -1
+         ? seatScreenPosition(seat)
+         : undefined;
+
+   if (position) {
+      bubble.style.left = `${position.x}px`;
+      bubble.style.top = `${position.y}px`;
+      document.querySelector("#game-area")?.append(bubble);
+   } else {
+      document
+         .querySelector(`.player-item[data-id="${CSS.escape(id)}"]`)
+         ?.append(bubble);
+   }
+
+   setTimeout(() => {
+      bubble.classList.add("fade-out");
+      setTimeout(() => {
+         bubble.remove();
+      }, 300);
+   }, 2000);
+}
+
 // MARK: Notification System
 
-function showNotification(message: string, duration: number = 3000): void {
+export function showNotification(
+   message: string,
+   duration: number = 3000
+): void {
    const notification = document.createElement("div");
    notification.className = "notification";
    notification.textContent = message;
@@ -471,67 +587,28 @@ export function endGameUI(): void {
    const readyButton = document.querySelector(
       "#ready-btn"
    ) as HTMLButtonElement;
-   const playCardsButton = document.querySelector(
-      "#play-cards-btn"
-   ) as HTMLButtonElement;
-   const passButton = document.querySelector("#pass-btn") as HTMLButtonElement;
-   const biddingSection = document.querySelector(
-      "#bidding-section"
-   ) as HTMLDivElement;
 
    readyButton.style.display = "block";
-   playCardsButton.style.display = "none";
-   passButton.style.display = "none";
-   biddingSection.style.display = "none";
+   gameView().hideControls();
 
+   stopClockCountdown();
+   hideSpectatorControls();
    updateUIPlayerList();
    clearCardSelection();
 }
 
 // MARK: Helper Functions
 
-function formatCards(cards: Card[]): string {
-   return cards
-      .map((card) => {
-         if (card.type === "Joker") return card.color === "BLACK" ? "🃏" : "🃟";
-
-         if (card.type === "Playing") {
-            const suitSymbols = { h: "♥", d: "♦", c: "♣", s: "♠" };
-            const rankSymbols: Record<number, string> = {
-               1: "A",
-               11: "J",
-               12: "Q",
-               13: "K",
-            };
-            const rank = rankSymbols[card.rank] || card.rank.toString();
-            return `${rank}${suitSymbols[card.suit]}`;
-         }
-         return "?";
-      })
-      .join(" ");
-}
-
-function formatPlayType(type: string): string {
-   const typeNames: Record<string, string> = {
-      solo: "Single",
-      pair: "Pair",
-      triple: "Triple",
-      triple_with_single: "Triple + Single",
-      triple_with_pair: "Triple + Pair",
-      straight: "Straight",
-      pair_straight: "Pair Straight",
-      triple_straight: "Airplane",
-      bomb: "Bomb 💣",
-      rocket: "Rocket 🚀",
-   };
-   return typeNames[type] || type;
-}
-
-function escapeHtml(text: string): string {
-   return text
-      .replaceAll("&", "&amp;")
-      .replaceAll("<", "&lt;")
-      .replaceAll(">", "&gt;")
-      .replaceAll('"', "&quot;")
-      .replaceAll("'", "&#039;");
+function formatBotLevel(level: BotLevel): string {
+   switch (level) {
+      case BotLevel.EASY: {
+         return "Easy";
+      }
+      case BotLevel.NORMAL: {
+         return "Normal";
+      }
+      case BotLevel.HARD: {
+         return "Hard";
+      }
+   }
 }
@@ -0,0 +1,23 @@
+import type { GameAction, GameState } from "../shared/definition";
+
+// The table UI for one game, looked up by the room's definition
+export interface GameView<G extends GameState = GameState> {
+   readonly gameId: string;
+
+   // Wire the game's own controls; they act on whatever game is current
+   init(current: () => G): void;
+   // Show the controls, bidding and last play for the game as it stands
+   render(game: G): void;
+   hideControls(): void;
+   // Keyboard shortcut; true when the key was handled
+   handleKey(game: G, key: string): boolean;
+
+   // System chat lines announcing what an action changed
+   describeUpdate(previous: G, game: G, action: GameAction): string[];
+   // The deal seed, once the game reveals it
+   revealedSeed(game: G): string | undefined;
+   // Marker shown after a seated player's name
+   playerBadge(game: G, id: string): string;
+   // Label and value rows for the game info panel
+   infoRows(game: G): [string, string][];
+}
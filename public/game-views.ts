@@ -0,0 +1,24 @@
+import type { GameDefinition, GameState } from "../shared/definition";
+import { ddzView } from "./ddz-view";
+import type { GameView } from "./game-view";
+
+const views = new Map<string, GameView>();
+
+export function registerGameView<G extends GameState>(view: GameView<G>): void {
+   if (views.has(view.gameId))
+      throw new Error(`View for "${view.gameId}" is already registered`);
+
+   views.set(view.gameId, view);
+}
+
+export function getGameView(definition: GameDefinition): GameView {
+   const view = views.get(definition.id);
+   if (!view) throw new Error(`Game "${definition.id}" has no table view`);
+   return view;
+}
+
+export function listGameViews(): GameView[] {
+   return [...views.values()];
+}
+
+registerGameView(ddzView);
@@ -1,21 +1,92 @@
 import { Player } from "../shared/player";
 import type { RoomListing } from "../shared/room";
-import { showError, updateLobbiesList } from "./menu-ui";
+import type { StatsSummary } from "../shared/stats";
+import { showNotification, updateUIPlayerList } from "./game-ui";
+import {
+   showConnectionBanner,
+   showError,
+   showPasswordModal,
+   showQueueStatus,
+   updateStatsModal,
+   updateLobbiesList,
+} from "./menu-ui";
 import { sn } from "./session";
 
+// Why the server closed this connection, when it said so
+let removedMessage: string | undefined;
+
 export function initMenuSocket(): void {
    sn.socket.on("created-player", (id: string, auth: string) => {
       sn.player = new Player(id);
       sn.auth = auth;
       sessionStorage.setItem("id", id);
       sessionStorage.setItem("auth", auth);
+
+      // Reconnects present these credentials to keep the same profile
+      sn.socket.auth = { playerID: id, token: auth };
+   });
+
+   sn.socket.on("disconnect", (reason: string) => {
+      // The server closes replaced sockets; those should stay closed
+      showConnectionBanner(
+         reason === "io server disconnect"
+            ? `Disconnected: ${removedMessage ?? "this session was opened elsewhere"}`
+            : "Connection lost. Reconnecting…"
+      );
+   });
+
+   sn.socket.io.on("reconnect_attempt", (attempt: number) => {
+      showConnectionBanner(
+         `Connection lost. Reconnecting… (attempt ${attempt})`
+      );
+   });
+
+   sn.socket.on("connect", () => {
+      showConnectionBanner();
+   });
+
+   sn.socket.on("removed-server", (message: string) => {
+      removedMessage = message;
+   });
+
+   sn.socket.on("sent-notice", (message: string) => {
+      showNotification(message, 10_000);
    });
 
    sn.socket.on("listed-rooms", (lobbies: RoomListing[]) => {
       updateLobbiesList(lobbies);
    });
 
+   sn.socket.on(
+      "password-required",
+      (code: string, watching: boolean, wrong: boolean) => {
+         showPasswordModal(code, watching, wrong);
+      }
+   );
+
+   sn.socket.on(
+      "updated-queue",
+      (position: number, waiting: number, needed: number) => {
+         showQueueStatus(
+            `Finding players… ${waiting}/${needed} waiting (#${position} in queue)`
+         );
+      }
+   );
+
+   sn.socket.on("left-queue", () => {
+      showQueueStatus();
+   });
+
+   sn.socket.on("sent-stats", (stats: Record<string, StatsSummary>) => {
+      for (const [id, summary] of Object.entries(stats))
+         sn.stats.set(id, summary);
+
+      if (sn.room) updateUIPlayerList();
+      updateStatsModal();
+   });
+
    sn.socket.on("error", (error: string) => {
-      showError("menu-error", error);
+      if (sn.room) showNotification(error);
+      else showError("menu-error", error);
    });
 }
@@ -1,9 +1,23 @@
-import type { RoomListing } from "../shared/room";
-import { stopPingUpdates } from "./game-ui";
+import type { ClockSettings } from "../shared/clock";
+import { DEFAULT_CLOCK, resolveClock } from "../shared/clock";
+import { DEFAULT_GAME_ID, getGameDefinition } from "../shared/games";
+import type { LeaderboardPage } from "../shared/leaderboard";
+import type { RoomListing, RoomSettings } from "../shared/room";
+import { resolveRoomSettings } from "../shared/room";
+import type { BiddingMode, GameRules } from "../shared/rules";
+import { DEFAULT_RULES, resolveRules } from "../shared/rules";
+import { formatStats } from "./format";
+import { stopClockCountdown, stopPingUpdates } from "./game-ui";
 import { sn } from "./session";
 
 // Store the pending action
 let pendingAction: (() => void) | undefined;
+// Waiting in the quick-play queue
+let queued = false;
+// Leaderboard page on show, starting from 1
+let leaderboardPage = 1;
+
+const LEADERBOARD_PAGE_SIZE = 20;
 
 export function initMenuControls(): void {
    // Combined action button
@@ -44,12 +58,17 @@ export function initMenuControls(): void {
 
       if (roomCode.length === 0) {
          // Create room
-         if (
-            checkAndPromptForName(() => {
-               sn.socket.emit("create-room");
-            })
-         )
-            sn.socket.emit("create-room");
+         const createRoom = () =>
+            sn.socket.emit(
+               "create-room",
+               DEFAULT_GAME_ID,
+               sn.settings.roomRules,
+               sn.settings.roomClock,
+               sn.settings.roomSettings,
+               sn.settings.roomPassword
+            );
+
+         if (checkAndPromptForName(createRoom)) createRoom();
       } else if (roomCode.length === 4) {
          // Join room
          if (
@@ -81,6 +100,12 @@ export function initMenuControls(): void {
    });
 
    setupNameModal();
+   setupPasswordModal();
+   setupRulesModal();
+   setupQuickPlay();
+   setupStatsModal();
+   setupMenuTabs();
+   setupLeaderboard();
 }
 
 // Export this function so it can be used in other files
@@ -173,6 +198,219 @@ function hideNameModal(): void {
    }
 }
 
+// Room the password modal will retry, and whether as a spectator
+let passwordTarget: { code: string; watching: boolean } | undefined;
+
+function setupPasswordModal(): void {
+   const modal = document.querySelector("#password-modal") as HTMLDivElement;
+   const submitButton = document.querySelector(
+      "#submit-password-btn"
+   ) as HTMLButtonElement;
+   const closeButton = document.querySelector(
+      "#close-password-modal"
+   ) as HTMLButtonElement;
+   const input = document.querySelector(
+      "#modal-password-input"
+   ) as HTMLInputElement;
+
+   submitButton.addEventListener("click", () => {
+      if (!passwordTarget) return;
+
+      const { code, watching } = passwordTarget;
+      sn.socket.emit(
+         watching ? "spectate-room" : "join-room",
+         code,
+         input.value
+      );
+      modal.classList.add("hidden");
+   });
+
+   closeButton.addEventListener("click", () => {
+      passwordTarget = undefined;
+      modal.classList.add("hidden");
+   });
+
+   input.addEventListener("keypress", (event: KeyboardEvent) => {
+      if (event.key === "Enter") submitButton.click();
+   });
+}
+
+export function showPasswordModal(
+   code: string,
+   watching: boolean,
+   wrong: boolean
+): void {
+   passwordTarget = { code, watching };
+
+   const text = document.querySelector("#password-modal-text") as HTMLElement;
+   text.textContent = `Room ${code} is protected by a password`;
+
+   const error = document.querySelector("#password-modal-error") as HTMLElement;
+   error.textContent = wrong ? "Wrong password" : "";
+
+   const input = document.querySelector(
+      "#modal-password-input"
+   ) as HTMLInputElement;
+   input.value = "";
+
+   document.querySelector("#password-modal")?.classList.remove("hidden");
+   input.focus();
+}
+
+// The rules modal edits either the defaults for rooms you create or, for
+// its owner, the room you are in
+let editingRoom = false;
+let passwordEdited = false;
+
+function setupRulesModal(): void {
+   const modal = document.querySelector("#rules-modal") as HTMLDivElement;
+   const settingButton = document.querySelector(
+      "#setting-btn"
+   ) as HTMLButtonElement;
+   const saveButton = document.querySelector(
+      "#save-rules-btn"
+   ) as HTMLButtonElement;
+   const resetButton = document.querySelector(
+      "#reset-rules-btn"
+   ) as HTMLButtonElement;
+   const passwordInput = document.querySelector(
+      "#rules-password"
+   ) as HTMLInputElement;
+
+   settingButton.addEventListener("click", () => {
+      openRulesModal(false);
+   });
+
+   modal.addEventListener("click", (event) => {
+      if (event.target === modal) modal.classList.add("hidden");
+   });
+
+   passwordInput.addEventListener("input", () => {
+      passwordEdited = true;
+   });
+
+   resetButton.addEventListener("click", () => {
+      const definition = getGameDefinition(DEFAULT_GAME_ID)!;
+      fillRulesInputs(
+         DEFAULT_RULES,
+         DEFAULT_CLOCK,
+         resolveRoomSettings(definition)
+      );
+      passwordInput.value = "";
+      passwordEdited = true;
+   });
+
+   saveButton.addEventListener("click", () => {
+      const form = readRulesInputs();
+      if (editingRoom) {
+         sn.socket.emit("update-room", {
+            options: form.rules,
+            clock: form.clock,
+            settings: form.settings,
+            password: passwordEdited ? passwordInput.value : undefined,
+         });
+      } else {
+         sn.settings.roomRules = form.rules;
+         sn.settings.roomClock = form.clock;
+         sn.settings.roomSettings = form.settings;
+         sn.settings.roomPassword = passwordInput.value.trim();
+      }
+
+      modal.classList.add("hidden");
+   });
+}
+
+export function openRulesModal(room: boolean): void {
+   editingRoom = room && sn.room !== undefined;
+   passwordEdited = false;
+
+   const title = document.querySelector("#rules-title") as HTMLElement;
+   const subtitle = document.querySelector("#rules-subtitle") as HTMLElement;
+   const passwordInput = document.querySelector(
+      "#rules-password"
+   ) as HTMLInputElement;
+
+   if (editingRoom && sn.room) {
+      title.textContent = "Room Settings";
+      subtitle.textContent = `Changes apply to room ${sn.room.code}`;
+      fillRulesInputs(
+         sn.room.options as GameRules,
+         sn.room.clockSettings,
+         sn.room.settings
+      );
+      passwordInput.value = "";
+      passwordInput.placeholder = sn.room.hasPassword ? "Unchanged" : "None";
+   } else {
+      title.textContent = "Room Rules";
+      subtitle.textContent = "House rules and clocks used for rooms you create";
+      fillRulesInputs(
+         sn.settings.roomRules,
+         sn.settings.roomClock,
+         sn.settings.roomSettings
+      );
+      passwordInput.value = sn.settings.roomPassword;
+      passwordInput.placeholder = "None";
+   }
+
+   document.querySelector("#rules-modal")?.classList.remove("hidden");
+}
+
+function rulesInput(name: string): HTMLInputElement {
+   return document.querySelector(`#rules-${name}`) as HTMLInputElement;
+}
+
+function fillRulesInputs(
+   rules: GameRules,
+   clock: ClockSettings,
+   settings: RoomSettings
+): void {
+   rulesInput("bidding").value = rules.bidding;
+   rulesInput("max-bid").value = String(rules.bids.at(-1));
+   rulesInput("min-straight").value = String(rules.minStraightLength);
+   rulesInput("min-pair-straight").value = String(rules.minPairStraightLength);
+   rulesInput("min-airplane").value = String(rules.minTripleStraightLength);
+   rulesInput("straight-ace").checked = rules.straightCap === 1;
+
+   rulesInput("move-seconds").value = String(clock.moveSeconds);
+   rulesInput("bank-seconds").value = String(clock.bankSeconds);
+
+   rulesInput("spectator-delay").value = String(settings.spectatorDelay);
+   rulesInput("max-players").value = String(settings.maxPlayers);
+   rulesInput("unlisted").checked = settings.unlisted;
+}
+
+function readRulesInputs(): {
+   rules: GameRules;
+   clock: ClockSettings;
+   settings: RoomSettings;
+} {
+   const definition =
+      sn.room?.definition ?? getGameDefinition(DEFAULT_GAME_ID)!;
+   const maxBid = Number(rulesInput("max-bid").value);
+
+   return {
+      rules: resolveRules({
+         bidding: rulesInput("bidding").value as BiddingMode,
+         bids: Array.from({ length: maxBid }, (_, index) => index + 1),
+         minStraightLength: Number(rulesInput("min-straight").value),
+         minPairStraightLength: Number(rulesInput("min-pair-straight").value),
+         minTripleStraightLength: Number(rulesInput("min-airplane").value),
+         straightCap: rulesInput("straight-ace").checked ? 1 : 13,
+      }),
+      clock: resolveClock({
+         moveSeconds: Number(rulesInput("move-seconds").value),
+         bankSeconds: Number(rulesInput("bank-seconds").value),
+      }),
+      settings: resolveRoomSettings(definition, {
+         // Locking is a separate toggle, so keep whatever the room has
+         locked: editingRoom ? sn.room?.settings.locked : false,
+         spectatorDelay: Number(rulesInput("spectator-delay").value),
+         maxPlayers: Number(rulesInput("max-players").value),
+         unlisted: rulesInput("unlisted").checked,
+      }),
+   };
+}
+
 function handleNameSubmit(event: Event): void {
    const target = event.target as HTMLInputElement;
    const name = target.value.trim();
@@ -190,9 +428,230 @@ function setupNameInput(elementId: string) {
    input?.addEventListener("blur", handleNameSubmit);
 }
 
+// MARK: Stats
+
+function setupStatsModal(): void {
+   const modal = document.querySelector("#stats-modal") as HTMLDivElement;
+   const statsButton = document.querySelector(
+      "#stats-btn"
+   ) as HTMLButtonElement;
+   const closeButton = document.querySelector(
+      "#close-stats-modal"
+   ) as HTMLButtonElement;
+
+   statsButton.addEventListener("click", () => {
+      if (!sn.player) return;
+
+      sn.socket.emit("get-stats", [sn.player.id]);
+      modal.classList.remove("hidden");
+      updateStatsModal();
+   });
+
+   closeButton.addEventListener("click", () => {
+      modal.classList.add("hidden");
+   });
+
+   modal.addEventListener("click", (event) => {
+      if (event.target === modal) modal.classList.add("hidden");
+   });
+}
+
+export function updateStatsModal(): void {
+   if (!sn.player) return;
+
+   const name = document.querySelector("#stats-modal-name") as HTMLElement;
+   name.textContent = sn.player.name;
+
+   const grid = document.querySelector("#stats-grid") as HTMLDivElement;
+   grid.innerHTML = "";
+
+   const stats = sn.stats.get(sn.player.id);
+   if (!stats) {
+      grid.textContent = "Finish a game to start your record";
+      return;
+   }
+
+   for (const [label, value] of formatStats(stats)) {
+      const labelDiv = document.createElement("div");
+      labelDiv.textContent = label;
+      const valueDiv = document.createElement("div");
+      valueDiv.textContent = value;
+      grid.append(labelDiv, valueDiv);
+   }
+}
+
+// MARK: Leaderboard
+
+function setupMenuTabs(): void {
+   const tabs = document.querySelectorAll<HTMLButtonElement>(".menu-tab");
+
+   for (const tab of tabs) {
+      tab.addEventListener("click", () => {
+         for (const other of tabs) {
+            other.classList.toggle("active", other === tab);
+            document
+               .querySelector(`#${other.dataset.tab}`)
+               ?.classList.toggle("hidden", other !== tab);
+         }
+
+         if (tab.dataset.tab === "leaderboard") void loadLeaderboard();
+      });
+   }
+}
+
+function setupLeaderboard(): void {
+   for (const selector of ["#leaderboard-window", "#leaderboard-variant"]) {
+      document.querySelector(selector)?.addEventListener("change", () => {
+         leaderboardPage = 1;
+         void loadLeaderboard();
+      });
+   }
+
+   document
+      .querySelector("#leaderboard-prev-btn")
+      ?.addEventListener("click", () => {
+         leaderboardPage--;
+         void loadLeaderboard();
+      });
+   document
+      .querySelector("#leaderboard-next-btn")
+      ?.addEventListener("click", () => {
+         leaderboardPage++;
+         void loadLeaderboard();
+      });
+}
+
+async function loadLeaderboard(): Promise<void> {
+   const window = document.querySelector(
+      "#leaderboard-window"
+   ) as HTMLSelectElement;
+   const variant = document.querySelector(
+      "#leaderboard-variant"
+   ) as HTMLSelectElement;
+
+   const parameters = new URLSearchParams({
+      game: DEFAULT_GAME_ID,
+      window: window.value,
+      variant: variant.value,
+      page: String(leaderboardPage),
+      pageSize: String(LEADERBOARD_PAGE_SIZE),
+   });
+   const response = await fetch(`/api/v1/leaderboard?${parameters}`);
+
+   const rows = document.querySelector("#leaderboard-rows") as HTMLDivElement;
+   if (!response.ok) {
+      rows.textContent = "Could not load the leaderboard";
+      return;
+   }
+
+   renderLeaderboard((await response.json()) as LeaderboardPage);
+}
+
+function renderLeaderboard(page: LeaderboardPage): void {
+   const variantSelect = document.querySelector(
+      "#leaderboard-variant"
+   ) as HTMLSelectElement;
+   const selected = variantSelect.value;
+   variantSelect.length = 1;
+   for (const variant of page.variants)
+      variantSelect.add(new Option(variant, variant));
+   variantSelect.value = selected;
+
+   const rows = document.querySelector("#leaderboard-rows") as HTMLDivElement;
+   rows.innerHTML = "";
+   rows.append(
+      leaderboardRow(["#", "Player", "Points", "W / G", "Rating"], "header")
+   );
+
+   for (const entry of page.entries) {
+      const row = leaderboardRow([
+         String(entry.rank),
+         entry.name,
+         String(entry.points),
+         `${entry.wins} / ${entry.games}`,
+         String(entry.rating),
+      ]);
+      if (entry.id === sn.player?.id) row.classList.add("self");
+      rows.append(row);
+   }
+
+   if (page.entries.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "no-lobbies";
+      empty.textContent = "No finished games in this window";
+      rows.append(empty);
+   }
+
+   const pages = Math.max(1, Math.ceil(page.total / page.query.pageSize));
+   leaderboardPage = Math.min(page.query.page, pages);
+
+   const label = document.querySelector("#leaderboard-page") as HTMLElement;
+   label.textContent = `${leaderboardPage} / ${pages}`;
+   setDisabled("#leaderboard-prev-btn", leaderboardPage <= 1);
+   setDisabled("#leaderboard-next-btn", leaderboardPage >= pages);
+}
+
+function leaderboardRow(cells: string[], className?: string): HTMLDivElement {
+   const row = document.createElement("div");
+   row.className = className
+      ? `leaderboard-row ${className}`
+      : "leaderboard-row";
+
+   for (const text of cells) {
+      const cell = document.createElement("div");
+      cell.textContent = text;
+      row.append(cell);
+   }
+
+   return row;
+}
+
+function setDisabled(selector: string, disabled: boolean): void {
+   const button = document.querySelector(selector) as HTMLButtonElement;
+   button.disabled = disabled;
+}
+
+// MARK: Quick Play
+
+function setupQuickPlay(): void {
+   const button = document.querySelector(
+      "#quick-play-btn"
+   ) as HTMLButtonElement;
+
+   button.addEventListener("click", () => {
+      if (queued) {
+         sn.socket.emit("leave-queue");
+         return;
+      }
+
+      if (checkAndPromptForName(joinQueue)) joinQueue();
+   });
+}
+
+// Matched with players using the same house rules
+function joinQueue(): void {
+   sn.socket.emit("join-queue", DEFAULT_GAME_ID, sn.settings.roomRules);
+}
+
+// Pass no message once the player leaves the queue
+export function showQueueStatus(message?: string): void {
+   queued = message !== undefined;
+
+   const button = document.querySelector(
+      "#quick-play-btn"
+   ) as HTMLButtonElement;
+   button.textContent = queued ? "Cancel" : "Quick Play";
+   button.classList.toggle("queued", queued);
+
+   const status = document.querySelector("#queue-status") as HTMLDivElement;
+   status.textContent = message ?? "";
+   status.classList.toggle("hidden", !queued);
+}
+
 export function leaveRoom(): void {
    globalThis.history.replaceState({}, "", globalThis.location.pathname);
    sn.socket.emit("leave-room");
+   sn.room = undefined;
    showMenuScreen();
 }
 
@@ -212,6 +671,17 @@ export function showMenuScreen(): void {
    sn.socket.emit("list-rooms");
 
    stopPingUpdates();
+   stopClockCountdown();
+}
+
+// Pass no message to hide the banner
+export function showConnectionBanner(message?: string): void {
+   const banner = document.querySelector(
+      "#connection-banner"
+   ) as HTMLDivElement;
+
+   banner.textContent = message ?? "";
+   banner.classList.toggle("hidden", message === undefined);
 }
 
 export function showError(elementId: string, message: string): void {
@@ -251,9 +721,13 @@ export function updateLobbiesList(lobbies: RoomListing[]): void {
       <div class="lobby-info">
         <div class="lobby-code">${lobby.code}</div>
         <div class="lobby-players">
-          <span style="color: var(--red); font-weight: 700;">${lobby.numPlayers}</span>
+          <span style="color: var(--red); font-weight: 700;">${lobby.numPlayers}/${lobby.maxPlayers}</span>
         </div>
+        ${lobby.locked ? `<div class="lobby-players" title="Locked">🔒</div>` : ""}
+        ${lobby.hasPassword ? `<div class="lobby-players" title="Password">🔑</div>` : ""}
+        ${lobby.numSpectators > 0 ? `<div class="lobby-players">👁 ${lobby.numSpectators}</div>` : ""}
       </div>
+      <button class="lobby-watch-btn">Watch</button>
       <button class="lobby-join-btn">Join</button>
     `;
 
@@ -272,6 +746,14 @@ export function updateLobbiesList(lobbies: RoomListing[]): void {
             sn.socket.emit("join-room", lobby.code);
       });
 
+      const watch = () => sn.socket.emit("spectate-room", lobby.code);
+      lobbyDiv
+         .querySelector(".lobby-watch-btn")
+         ?.addEventListener("click", (event) => {
+            event.stopPropagation();
+            if (checkAndPromptForName(watch)) watch();
+         });
+
       lobbiesContainer.append(lobbyDiv);
    }
 }
@@ -0,0 +1,200 @@
+import type { Card } from "../shared/card";
+import { DdzAction } from "../shared/ddz";
+import type { Game } from "../shared/game";
+import { BidKind, GamePhase } from "../shared/game";
+import type { SerializedReplay } from "../shared/replay";
+import { Replay } from "../shared/replay";
+import { cardImagePath } from "./card-images";
+import { escapeHtml, formatBid, formatCards, formatPlayType } from "./format";
+
+let replay: Replay;
+// The game after each step; step 0 is the opening deal
+let states: Game[] = [];
+let step = 0;
+
+document.addEventListener("DOMContentLoaded", () => {
+   void loadReplay();
+});
+
+async function loadReplay(): Promise<void> {
+   // Path looks like /replays/ID
+   const id = globalThis.location.pathname.split("/")[2] ?? "";
+   const response = await fetch(`/replays/${encodeURIComponent(id)}`, {
+      headers: { Accept: "application/json" },
+   });
+
+   if (!response.ok) {
+      showError("Replay not found");
+      return;
+   }
+
+   replay = Replay.deserialize((await response.json()) as SerializedReplay);
+   states = [];
+   for (let index = 0; index <= replay.events.length; index++)
+      states.push(replay.rebuild(index) as Game);
+
+   initControls();
+   renderMeta();
+   goTo(0);
+}
+
+// MARK: Controls
+
+function initControls(): void {
+   const slider = document.querySelector("#replay-slider") as HTMLInputElement;
+   slider.max = String(replay.events.length);
+   slider.addEventListener("input", () => goTo(Number(slider.value)));
+
+   document
+      .querySelector("#replay-first-btn")
+      ?.addEventListener("click", () => goTo(0));
+   document
+      .querySelector("#replay-prev-btn")
+      ?.addEventListener("click", () => goTo(step - 1));
+   document
+      .querySelector("#replay-next-btn")
+      ?.addEventListener("click", () => goTo(step + 1));
+   document
+      .querySelector("#replay-last-btn")
+      ?.addEventListener("click", () => goTo(replay.events.length));
+
+   document.addEventListener("keydown", (event: KeyboardEvent) => {
+      if (event.key === "ArrowLeft") goTo(step - 1);
+      if (event.key === "ArrowRight") goTo(step + 1);
+   });
+}
+
+function goTo(target: number): void {
+   step = Math.min(replay.events.length, Math.max(0, target));
+
+   const slider = document.querySelector("#replay-slider") as HTMLInputElement;
+   slider.value = String(step);
+
+   const atStart = step === 0;
+   const atEnd = step === replay.events.length;
+   setDisabled("#replay-first-btn", atStart);
+   setDisabled("#replay-prev-btn", atStart);
+   setDisabled("#replay-next-btn", atEnd);
+   setDisabled("#replay-last-btn", atEnd);
+
+   renderTable();
+   renderStep();
+}
+
+function setDisabled(selector: string, disabled: boolean): void {
+   const button = document.querySelector(selector) as HTMLButtonElement;
+   button.disabled = disabled;
+}
+
+// MARK: Rendering
+
+function renderMeta(): void {
+   const meta = document.querySelector("#replay-meta") as HTMLDivElement;
+   const started = new Date(replay.startedAt).toLocaleString();
+
+   meta.innerHTML = `
+      <div>${escapeHtml(started)} · Seed ${escapeHtml(replay.seed)}</div>
+      <div>${escapeHtml(replay.result?.reason ?? "Unfinished")}</div>
+   `;
+}
+
+function renderTable(): void {
+   const game = states[step];
+
+   const bottom = document.querySelector("#replay-bottom") as HTMLDivElement;
+   bottom.innerHTML = "";
+   bottom.append(
+      cardRow("Bottom", game.bottom),
+      cardRow(
+         game.lastPlay
+            ? `On the table: ${formatPlayType(game.lastPlay.type)}`
+            : "On the table",
+         game.lastPlay?.cards ?? []
+      )
+   );
+
+   const seats = document.querySelector("#replay-seats") as HTMLDivElement;
+   seats.innerHTML = "";
+   for (const [index, player] of game.players.entries()) {
+      const crown = index === game.landlordIndex ? " 👑" : "";
+      const row = cardRow(
+         `${player.name}${crown} · ${player.hand.cards.length}`,
+         player.hand.cards
+      );
+
+      row.classList.add("replay-seat");
+      if (index === game.currentIndex && game.phase !== GamePhase.FINISHED)
+         row.classList.add("current");
+
+      seats.append(row);
+   }
+}
+
+function cardRow(label: string, cards: Card[]): HTMLDivElement {
+   const row = document.createElement("div");
+
+   const name = document.createElement("div");
+   name.className = "replay-seat-name";
+   name.textContent = label;
+
+   const images = document.createElement("div");
+   images.className = "replay-cards";
+   for (const card of cards) {
+      const image = document.createElement("img");
+      image.src = cardImagePath(card);
+      image.alt = formatCards([card]);
+      images.append(image);
+   }
+
+   row.append(name, images);
+   return row;
+}
+
+function renderStep(): void {
+   const stepDiv = document.querySelector("#replay-step") as HTMLDivElement;
+   stepDiv.textContent = `Step ${step} / ${replay.events.length}: ${describeStep()}`;
+}
+
+function describeStep(): string {
+   if (step === 0) return "Cards dealt";
+
+   const { playerIndex, action } = replay.events[step - 1];
+   const before = states[step - 1];
+   const after = states[step];
+   const name = after.players[playerIndex].name;
+
+   let description: string;
+   switch (action.type) {
+      case DdzAction.BID: {
+         const bid = after.bids.at(-1);
+         description =
+            after.redeals > before.redeals
+               ? `${name} passes; everyone passed, redealing`
+               : `${name} ${bid?.kind === BidKind.BID ? "bids " : ""}${bid ? formatBid(bid) : "bids"}`;
+
+         if (after.phase === GamePhase.PLAYING)
+            description += `. ${after.landlord?.name} is the landlord`;
+         break;
+      }
+      case DdzAction.PLAY: {
+         const play = after.lastPlay;
+         description = play
+            ? `${name} plays ${formatPlayType(play.type)}: ${formatCards(play.cards)}`
+            : `${name} plays`;
+         break;
+      }
+      default: {
+         description = `${name} passes`;
+      }
+   }
+
+   if (after.phase === GamePhase.FINISHED && replay.result)
+      description += `. ${replay.result.reason}`;
+
+   return description;
+}
+
+function showError(message: string): void {
+   const error = document.querySelector("#replay-error") as HTMLDivElement;
+   error.textContent = message;
+}
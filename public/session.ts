@@ -2,6 +2,7 @@ import type { Socket } from "socket.io-client";
 import { io } from "socket.io-client";
 import { Player } from "../shared/player";
 import type { Room } from "../shared/room";
+import type { StatsSummary } from "../shared/stats";
 import { Settings } from "./settings";
 
 export class Session {
@@ -10,6 +11,8 @@ export class Session {
    player: Player | undefined;
    auth: string;
    settings: Settings;
+   // Stats fetched so far, by player ID
+   stats: Map<string, StatsSummary>;
 
    constructor(id?: string, auth?: string) {
       this.socket =
@@ -26,6 +29,7 @@ export class Session {
       this.player = id ? new Player(id) : undefined;
       this.auth = auth || "";
       this.settings = new Settings();
+      this.stats = new Map();
 
       if (this.settings.logSocket) {
          const ignoredEvents = new Set(["ping", "pong"]);
@@ -64,15 +68,11 @@ export class Session {
 }
 
 export function initSession() {
-   // const id = sessionStorage.getItem("id");
-   // const auth = sessionStorage.getItem("auth");
+   // Reuse this tab's profile so a refresh resumes the same seat
+   const id = sessionStorage.getItem("id");
+   const auth = sessionStorage.getItem("auth");
 
-   // if (id && auth) {
-   //    session = new Session(id, auth);
-   // } else {
-   //    session = new Session();
-   // }
-   sn = new Session();
+   sn = id && auth ? new Session(id, auth) : new Session();
    gs = sn as GameSession;
    return sn;
 }
@@ -1,3 +1,17 @@
+import type { ClockSettings } from "../shared/clock";
+import { DEFAULT_CLOCK } from "../shared/clock";
+import { DEFAULT_GAME_ID, getGameDefinition } from "../shared/games";
+import type { RoomSettings } from "../shared/room";
+import { resolveRoomSettings } from "../shared/room";
+import type { GameRules } from "../shared/rules";
+import { DEFAULT_RULES } from "../shared/rules";
+
 export class Settings {
    logSocket = true;
+   roomRules: GameRules = { ...DEFAULT_RULES };
+   roomClock: ClockSettings = { ...DEFAULT_CLOCK };
+   roomSettings: RoomSettings = resolveRoomSettings(
+      getGameDefinition(DEFAULT_GAME_ID)!
+   );
+   roomPassword = "";
 }
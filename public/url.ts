@@ -6,22 +6,22 @@ export function checkURLForRoom(): void {
    const pathParts = globalThis.location.pathname.split("/");
    const roomCode = pathParts[2]; // Assuming /games/ROOMCODE structure
 
-   if (
-      roomCode &&
-      roomCode.length === 4 &&
-      checkAndPromptForName(() => {
-         // Remove URL extension
-         globalThis.history.replaceState({}, "", "/");
-         sn.socket.emit("join-room", roomCode);
-      })
-   ) {
-      // If name is already set, join immediately
+   if (!roomCode || roomCode.length !== 4) return;
+
+   // Links ending in ?watch open the room as a spectator
+   const watch = new URLSearchParams(globalThis.location.search).has("watch");
+
+   const join = () => {
+      // Remove URL extension
       globalThis.history.replaceState({}, "", "/");
-      sn.socket.emit("join-room", roomCode);
-   }
+      sn.socket.emit(watch ? "spectate-room" : "join-room", roomCode);
+   };
+
+   // A restored session already has a name, so rejoin straight away
+   if (sn.auth || checkAndPromptForName(join)) join();
 }
 
-export function updateURL(roomCode: string): void {
-   const newPath = `/games/${roomCode}`;
+export function updateURL(roomCode: string, watching = false): void {
+   const newPath = `/games/${roomCode}${watching ? "?watch" : ""}`;
    globalThis.history.replaceState({}, "", newPath);
 }
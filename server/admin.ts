@@ -0,0 +1,215 @@
+import { ApiErrorCode, handleApiError, sendError } from "api";
+import type { NextFunction, Request, Response } from "express";
+import express, { Router } from "express";
+import { forceEndRoom } from "handlers";
+import { timingSafeEqual } from "node:crypto";
+import type { Ban } from "server";
+import { bans, gameSockets, io, MENU_ROOM, rooms, storage } from "server";
+import { Collection } from "storage";
+import { RoomStatus } from "../shared/room";
+import { ADMIN } from "../shared/visibility";
+
+// Bearer token for the admin API, from ADMIN_TOKEN; unset turns it off
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+// While draining, running rooms play on but no new ones open
+let draining = false;
+
+export function isDraining(): boolean {
+   return draining;
+}
+
+export function setDraining(enabled: boolean): void {
+   draining = enabled;
+}
+
+// Close every connection the profile has open, telling it why
+export function disconnectProfile(id: string, message: string): boolean {
+   let found = false;
+   for (const socket of gameSockets.values()) {
+      if (socket.player.id !== id) continue;
+
+      socket.emit("removed-server", message);
+      socket.disconnect(true);
+      found = true;
+   }
+
+   return found;
+}
+
+// Moderation and operations endpoints, mounted under /api/v1/admin
+export const adminRouter = Router();
+
+adminRouter.use(requireToken, express.json());
+
+adminRouter.get("/status", (_request, response) => {
+   response.json({ draining, bans: Object.fromEntries(bans) });
+});
+
+// Every room, unlisted and password-protected ones included
+adminRouter.get("/rooms", (_request, response) => {
+   response.json(
+      [...rooms.values()].map((room) => ({
+         ...room.getRoomListing(),
+         status: room.status,
+         variant: room.variant(),
+         unlisted: room.settings.unlisted,
+         ownerId: room.ownerId,
+         players: [...room.players.values()].map(
+            ({ id, name, status, bot }) => ({
+               id,
+               name,
+               status,
+               bot,
+            })
+         ),
+         spectators: [...room.spectators.values()].map(({ id, name }) => ({
+            id,
+            name,
+         })),
+      }))
+   );
+});
+
+// The full game, every hand and the deal seed included
+adminRouter.get("/rooms/:code", (request, response) => {
+   const room = rooms.get(request.params.code.toUpperCase());
+   if (!room) {
+      sendError(response, 404, ApiErrorCode.ROOM_NOT_FOUND, "Room not found");
+      return;
+   }
+
+   response.json(room.serialize(ADMIN));
+});
+
+adminRouter.post("/rooms/:code/end", (request, response) => {
+   const room = rooms.get(request.params.code.toUpperCase());
+   if (!room) {
+      sendError(response, 404, ApiErrorCode.ROOM_NOT_FOUND, "Room not found");
+      return;
+   }
+
+   if (room.status !== RoomStatus.PLAYING) {
+      sendError(
+         response,
+         409,
+         ApiErrorCode.NOT_PLAYING,
+         "Room has no game in progress"
+      );
+      return;
+   }
+
+   forceEndRoom(room, "The game was ended by an administrator");
+   response.json({ ok: true });
+});
+
+// Connected players, with the room each one is in
+adminRouter.get("/players", (_request, response) => {
+   response.json(
+      [...gameSockets.values()].map((socket) => ({
+         id: socket.player.id,
+         name: socket.player.name,
+         room: socket.room?.code,
+         spectating: socket.room?.isSpectator(socket.player.id) ?? false,
+      }))
+   );
+});
+
+adminRouter.post("/players/:id/kick", (request, response) => {
+   if (
+      !disconnectProfile(
+         request.params.id,
+         "You were disconnected by an administrator"
+      )
+   ) {
+      sendError(
+         response,
+         404,
+         ApiErrorCode.PLAYER_NOT_FOUND,
+         "Player is not connected"
+      );
+      return;
+   }
+
+   response.json({ ok: true });
+});
+
+adminRouter.post("/players/:id/ban", (request, response) => {
+   const { id } = request.params;
+   const socket = [...gameSockets.values()].find((s) => s.player.id === id);
+
+   const ban: Ban = { name: socket?.player.name ?? id, bannedAt: Date.now() };
+   bans.set(id, ban);
+   storage.save(Collection.BANS, id, ban);
+
+   disconnectProfile(id, "This profile has been banned");
+   response.json({ ok: true });
+});
+
+adminRouter.post("/players/:id/unban", (request, response) => {
+   bans.delete(request.params.id);
+   storage.delete(Collection.BANS, request.params.id);
+   response.json({ ok: true });
+});
+
+// A notice for everyone on the menu screen
+adminRouter.post("/broadcast", (request, response) => {
+   const message = (request.body as { message?: unknown } | undefined)?.message;
+   if (typeof message !== "string" || message.trim().length === 0) {
+      sendError(response, 400, ApiErrorCode.BAD_REQUEST, "Message is empty");
+      return;
+   }
+
+   io.to(MENU_ROOM).emit("sent-notice", message.trim().slice(0, 500));
+   response.json({ ok: true });
+});
+
+adminRouter.post("/drain", (request, response) => {
+   const enabled = (request.body as { enabled?: unknown } | undefined)?.enabled;
+   if (typeof enabled !== "boolean") {
+      sendError(
+         response,
+         400,
+         ApiErrorCode.BAD_REQUEST,
+         "Expected { enabled: boolean }"
+      );
+      return;
+   }
+
+   draining = enabled;
+   response.json({ draining });
+});
+
+// Failures answer in JSON, as the public API does
+adminRouter.use(handleApiError);
+
+function requireToken(
+   request: Request,
+   response: Response,
+   next: NextFunction
+): void {
+   if (!ADMIN_TOKEN) {
+      sendError(
+         response,
+         404,
+         ApiErrorCode.NOT_FOUND,
+         "Admin console is disabled"
+      );
+      return;
+   }
+
+   const header = request.get("authorization") ?? "";
+   const token = Buffer.from(header.replace(/^Bearer /, ""));
+   const expected = Buffer.from(ADMIN_TOKEN);
+   if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      sendError(
+         response,
+         401,
+         ApiErrorCode.UNAUTHORIZED,
+         "Missing or wrong admin token"
+      );
+      return;
+   }
+
+   next();
+}
@@ -0,0 +1,144 @@
+import type { NextFunction, Request, Response } from "express";
+import { Router } from "express";
+import { buildLeaderboard } from "leaderboard";
+import { log, LogLevel } from "logging";
+import { errorCount } from "metrics";
+import { gameSockets, rooms } from "server";
+import { resolveLeaderboardQuery } from "../shared/leaderboard";
+import type { RoomListing } from "../shared/room";
+import { RoomStatus } from "../shared/room";
+import { SPECTATOR } from "../shared/visibility";
+
+export enum ApiErrorCode {
+   BAD_REQUEST = "bad_request",
+   UNAUTHORIZED = "unauthorized",
+   NOT_FOUND = "not_found",
+   ROOM_NOT_FOUND = "room_not_found",
+   PLAYER_NOT_FOUND = "player_not_found",
+   PASSWORD_REQUIRED = "password_required",
+   NOT_PLAYING = "not_playing",
+   INTERNAL = "internal",
+}
+
+// Every failed request answers with { error: ApiError }
+export interface ApiError {
+   code: ApiErrorCode;
+   message: string;
+}
+
+export interface ApiRoom extends RoomListing {
+   status: RoomStatus;
+   gameId: string;
+   variant: string;
+}
+
+export interface ApiHealth {
+   status: "ok";
+   uptimeSeconds: number;
+   rooms: number;
+   playingRooms: number;
+   sockets: number;
+}
+
+// Read-only JSON endpoints, mounted under /api/v1
+export const apiRouter = Router();
+
+apiRouter.get("/rooms", (_request, response) => {
+   const listed: ApiRoom[] = [];
+   for (const room of rooms.values()) {
+      if (room.settings.unlisted) continue;
+
+      listed.push({
+         ...room.getRoomListing(),
+         status: room.status,
+         gameId: room.definition.id,
+         variant: room.variant(),
+      });
+   }
+
+   response.json(listed);
+});
+
+// Unlisted rooms answer too; knowing the code is enough, as when joining
+apiRouter.get("/rooms/:code", (request, response) => {
+   const room = rooms.get(request.params.code.toUpperCase());
+   if (!room) {
+      sendError(response, 404, ApiErrorCode.ROOM_NOT_FOUND, "Room not found");
+      return;
+   }
+
+   if (room.hasPassword) {
+      sendError(
+         response,
+         403,
+         ApiErrorCode.PASSWORD_REQUIRED,
+         "Room is protected by a password"
+      );
+      return;
+   }
+
+   const data = room.serialize(SPECTATOR);
+   const leak = room.findLeak(data, SPECTATOR);
+   if (leak) {
+      errorCount.inc({ type: "leak" });
+      log(LogLevel.ERROR, "snapshot-withheld", {
+         room: room.code,
+         event: "api",
+         leak,
+      });
+      sendError(response, 500, ApiErrorCode.INTERNAL, "Internal error");
+      return;
+   }
+
+   response.json(data);
+});
+
+apiRouter.get("/leaderboard", (request, response) => {
+   const query = resolveLeaderboardQuery(
+      request.query as Record<string, unknown>
+   );
+   response.json(buildLeaderboard(query));
+});
+
+apiRouter.get("/health", (_request, response) => {
+   let playingRooms = 0;
+   for (const room of rooms.values())
+      if (room.status === RoomStatus.PLAYING) playingRooms++;
+
+   const health: ApiHealth = {
+      status: "ok",
+      uptimeSeconds: Math.floor(process.uptime()),
+      rooms: rooms.size,
+      playingRooms,
+      sockets: gameSockets.size,
+   };
+   response.json(health);
+});
+
+apiRouter.use((_request, response) => {
+   sendError(response, 404, ApiErrorCode.NOT_FOUND, "No such endpoint");
+});
+
+apiRouter.use(handleApiError);
+
+// Express only treats four-argument middleware as an error handler
+export function handleApiError(
+   error: unknown,
+   request: Request,
+   response: Response,
+   _next: NextFunction
+): void {
+   errorCount.inc({ type: "api" });
+   log(LogLevel.ERROR, "api-failed", { path: request.originalUrl, error });
+   sendError(response, 500, ApiErrorCode.INTERNAL, "Internal error");
+}
+
+export function sendError(
+   response: Response,
+   status: number,
+   code: ApiErrorCode,
+   message: string
+): void {
+   const error: ApiError = { code, message };
+   response.status(status).json({ error });
+}
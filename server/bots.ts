@@ -0,0 +1,73 @@
+import { randomBytes } from "node:crypto";
+import type { GameAction } from "../shared/definition";
+import { BotLevel, Player, PlayerStatus } from "../shared/player";
+import type { Room } from "../shared/room";
+import { RoomStatus } from "../shared/room";
+
+// Think time range in milliseconds, so bots do not answer instantly
+const THINK_DELAY: Record<BotLevel, [number, number]> = {
+   [BotLevel.EASY]: [800, 2000],
+   [BotLevel.NORMAL]: [1000, 2500],
+   [BotLevel.HARD]: [1200, 3000],
+};
+
+const BOT_NAMES: Record<BotLevel, string> = {
+   [BotLevel.EASY]: "Easy Bot",
+   [BotLevel.NORMAL]: "Bot",
+   [BotLevel.HARD]: "Hard Bot",
+};
+
+// Pending bot move per room code
+const botTimers = new Map<string, NodeJS.Timeout>();
+
+export function isBotLevel(level: unknown): level is BotLevel {
+   return Object.values(BotLevel).includes(level as BotLevel);
+}
+
+export function createBot(room: Room, level: BotLevel): Player {
+   const id = `bot-${randomBytes(8).toString("hex")}`;
+   const count = room.bots().filter((bot) => bot.bot === level).length;
+   const name =
+      count > 0 ? `${BOT_NAMES[level]} ${count + 1}` : BOT_NAMES[level];
+
+   const bot = new Player(id, name, level);
+   bot.status = PlayerStatus.READY;
+   return bot;
+}
+
+// If a bot holds the turn, make its move after a think delay
+export function scheduleBotTurn(
+   room: Room,
+   act: (playerIndex: number, action: GameAction) => void
+): void {
+   cancelBotTurn(room);
+   if (room.status !== RoomStatus.PLAYING || !room.definition.botAction) return;
+
+   const player = room.game.players[room.game.currentIndex];
+   const level = player.bot;
+   if (!level) return;
+
+   const [min, max] = THINK_DELAY[level];
+   const delay = min + Math.random() * (max - min);
+
+   botTimers.set(
+      room.code,
+      setTimeout(() => {
+         botTimers.delete(room.code);
+         if (room.status !== RoomStatus.PLAYING) return;
+
+         const playerIndex = room.game.currentIndex;
+         const action = room.definition.botAction!(
+            room.game,
+            playerIndex,
+            level
+         );
+         act(playerIndex, action);
+      }, delay)
+   );
+}
+
+export function cancelBotTurn(room: Room): void {
+   clearTimeout(botTimers.get(room.code));
+   botTimers.delete(room.code);
+}
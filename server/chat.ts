@@ -0,0 +1,36 @@
+// Words masked in chat, from a comma-separated CHAT_FILTER variable
+export const CHAT_FILTER = (process.env.CHAT_FILTER ?? "")
+   .split(",")
+   .map((word) => word.trim())
+   .filter((word) => word.length > 0);
+
+// Each player may send CHAT_BURST messages or emotes per CHAT_WINDOW
+const CHAT_BURST = 5;
+const CHAT_WINDOW = 10_000;
+
+// Send times within the window, per player ID; players who have gone
+// quiet for a whole window are dropped by pruneMessages
+const recentMessages = new Map<string, number[]>();
+
+setInterval(pruneMessages, CHAT_WINDOW);
+
+export function allowMessage(playerID: string): boolean {
+   const now = Date.now();
+   const recent = (recentMessages.get(playerID) ?? []).filter(
+      (time) => now - time < CHAT_WINDOW
+   );
+
+   const allowed = recent.length < CHAT_BURST;
+   if (allowed) recent.push(now);
+
+   recentMessages.set(playerID, recent);
+   return allowed;
+}
+
+function pruneMessages(): void {
+   const now = Date.now();
+   for (const [playerID, recent] of recentMessages) {
+      if (recent.every((time) => now - time >= CHAT_WINDOW))
+         recentMessages.delete(playerID);
+   }
+}
@@ -0,0 +1,37 @@
+import type { Room } from "../shared/room";
+import { RoomStatus } from "../shared/room";
+
+// Pending timeout per room code
+const clockTimers = new Map<string, NodeJS.Timeout>();
+
+// Start the current player's clock; if it runs out, `expire` moves for them
+export function startTurnClock(
+   room: Room,
+   expire: (playerIndex: number) => void
+): void {
+   stopTurnClock(room);
+   const clock = room.clock;
+   if (room.status !== RoomStatus.PLAYING || !clock) return;
+
+   clock.start(room.game.currentIndex);
+   clockTimers.set(
+      room.code,
+      setTimeout(() => {
+         clockTimers.delete(room.code);
+         clock.stop();
+         if (room.status !== RoomStatus.PLAYING) return;
+
+         expire(clock.seatIndex);
+      }, clock.remaining())
+   );
+}
+
+// Stop the running clock, charging any overrun to the player's bank
+export function stopTurnClock(room: Room): void {
+   const timer = clockTimers.get(room.code);
+   if (!timer) return;
+
+   clearTimeout(timer);
+   clockTimers.delete(room.code);
+   room.clock?.stop();
+}
@@ -0,0 +1,14 @@
+import { createHash } from "node:crypto";
+import { randomSeed } from "../shared/random";
+
+// Set SEED to deal every round from one seed, e.g. to replay a reported deal
+export const FORCED_SEED = process.env.SEED || undefined;
+
+export function nextSeed(): string {
+   return FORCED_SEED ?? randomSeed();
+}
+
+// Published when the round starts so players can check the revealed seed
+export function hashSeed(seed: string): string {
+   return createHash("sha256").update(seed).digest("hex");
+}
@@ -1,174 +1,967 @@
+import { isDraining } from "admin";
+import { cancelBotTurn, createBot, isBotLevel, scheduleBotTurn } from "bots";
+import { allowMessage, CHAT_FILTER } from "chat";
+import { startTurnClock, stopTurnClock } from "clocks";
+import { hashSeed, nextSeed } from "fairness";
+import type { Match } from "matchmaking";
+import { recordGame } from "leaderboard";
+import { log, LogLevel } from "logging";
+import { joinQueue, leaveQueue } from "matchmaking";
+import {
+   errorCount,
+   gamesFinished,
+   gamesStarted,
+   handlerLatency,
+} from "metrics";
+import { lookupStats, recordStats } from "stats";
+import { Collection } from "storage";
 import type { GameSocket } from "server";
-import { emitRoomList, gameSockets, io, MENU_ROOM, rooms } from "server";
+import {
+   emitRoomList,
+   gameSockets,
+   io,
+   MENU_ROOM,
+   profiles,
+   rooms,
+   saveProfile,
+   saveReplay,
+   storage,
+} from "server";
 import type { Server } from "socket.io";
-import type { Card } from "../shared/card";
-import { GamePhase } from "../shared/game";
-import { PlayerStatus } from "../shared/player";
-import { Room, RoomStatus } from "../shared/room";
+import {
+   cleanMessage,
+   filterMessage,
+   isEmote,
+   playerMessage,
+   spectatorMessage,
+   systemMessage,
+} from "../shared/chat";
+import type { ClockSettings } from "../shared/clock";
+import { resolveClock } from "../shared/clock";
+import type { GameDefinition } from "../shared/definition";
+import { DEFAULT_GAME_ID, getGameDefinition } from "../shared/games";
+import { BotLevel, PlayerStatus } from "../shared/player";
+import type {
+   RoomSettings,
+   RoomSnapshot,
+   SerializedRoom,
+} from "../shared/room";
+import { resolveRoomSettings, Room, RoomStatus } from "../shared/room";
+import type { ActionError } from "../shared/validation";
+import {
+   actionError,
+   ActionErrorCode,
+   isActionError,
+} from "../shared/validation";
+import type { Viewer } from "../shared/visibility";
+import { DELAYED_SPECTATOR, SPECTATOR, viewerFor } from "../shared/visibility";
+
+// Milliseconds players have to reconnect to rooms restored on boot
+const RESTORE_GRACE = 120_000;
+
+// Where a room's delayed spectator feed has got to: the room as it stood
+// after the last event delivered, and how many are still on their way
+interface DelayedFeed {
+   shown: SerializedRoom | undefined;
+   pending: number;
+}
+
+const delayedFeeds = new Map<string, DelayedFeed>();
+
+const DRAINING_MESSAGE =
+   "The server is about to restart and is not opening new rooms";
+
+// Lobby changes an owner may make at once; omitted fields stay as they are
+interface RoomUpdate {
+   options?: unknown;
+   clock?: Partial<ClockSettings>;
+   settings?: Partial<RoomSettings>;
+   // An empty string removes the password
+   password?: unknown;
+}
 
 export function setupHandlers(socket: GameSocket): void {
-   socket.on("ping", () => {
+   on(socket, "ping", () => {
       socket.emit("pong");
    });
 
-   socket.on("set-name", (name: string) => {
+   on(socket, "set-name", (name: unknown) => {
+      if (typeof name !== "string") return;
       socket.player.name = name.trim().slice(0, 20);
+
+      const profile = profiles.get(socket.player.id);
+      if (profile) saveProfile({ ...profile, name: socket.player.name });
    });
 
-   socket.on("create-room", () => {
-      const code = createRoom();
-      if (!code) {
-         socket.emit("error", "Room limit reached");
-         return;
-      }
+   on(
+      socket,
+      "create-room",
+      (
+         gameId?: string,
+         options?: unknown,
+         clock?: Partial<ClockSettings>,
+         settings?: Partial<RoomSettings>,
+         password?: unknown
+      ) => {
+         if (isDraining()) {
+            refuse(socket, DRAINING_MESSAGE);
+            return;
+         }
 
-      joinRoom(socket, io, code);
+         const definition = getGameDefinition(gameId ?? DEFAULT_GAME_ID);
+         if (!definition) {
+            refuse(socket, "Unknown game");
+            return;
+         }
+
+         leaveQueue(socket);
+         const roomPassword = cleanPassword(password);
+         const code = createRoom(
+            definition,
+            definition.resolveOptions(options),
+            resolveClock(clock),
+            resolveRoomSettings(definition, settings),
+            roomPassword
+         );
+         if (!code) {
+            refuse(socket, "Room limit reached");
+            return;
+         }
 
+         joinRoom(socket, io, code, roomPassword);
+
+         emitRoomList();
+      }
+   );
+
+   on(socket, "join-room", (code: unknown, password?: unknown) => {
+      if (typeof code !== "string") return;
+      leaveQueue(socket);
+      joinRoom(socket, io, code.toUpperCase(), password);
       emitRoomList();
    });
 
-   socket.on("join-room", (code: string) => {
-      joinRoom(socket, io, code.toUpperCase());
+   on(socket, "spectate-room", (code: unknown, password?: unknown) => {
+      if (typeof code !== "string") return;
+      leaveQueue(socket);
+      watchRoom(socket, code.toUpperCase(), password);
       emitRoomList();
    });
 
-   socket.on("leave-room", () => {
+   on(socket, "join-queue", (gameId?: string, options?: unknown) => {
+      if (socket.room) return;
+
+      if (isDraining()) {
+         refuse(socket, DRAINING_MESSAGE);
+         return;
+      }
+
+      const definition = getGameDefinition(gameId ?? DEFAULT_GAME_ID);
+      if (!definition) {
+         refuse(socket, "Unknown game");
+         return;
+      }
+
+      joinQueue(
+         socket,
+         definition,
+         definition.resolveOptions(options),
+         startMatch
+      );
+   });
+
+   on(socket, "leave-queue", () => {
+      leaveQueue(socket);
+   });
+
+   on(socket, "leave-room", () => {
       handlePlayerLeave(socket);
       socket.join(MENU_ROOM);
    });
 
-   socket.on("disconnect", () => {
+   on(socket, "disconnect", (reason: string) => {
       gameSockets.delete(socket.id);
+      leaveQueue(socket);
+      log(LogLevel.INFO, "disconnected", {
+         room: socket.room?.code,
+         player: socket.player.id,
+         reason,
+      });
+
+      // Replaced by a newer connection, which keeps the seat
+      if (findPlayerSocket(socket.player.id)) return;
       handlePlayerLeave(socket);
    });
 
-   socket.on("toggle-ready", () => {
+   on(socket, "toggle-ready", () => {
       if (!socket.room || socket.room.status === RoomStatus.PLAYING) return;
+      if (socket.room.isSpectator(socket.player.id)) return;
 
       socket.player.status =
          socket.player.status === PlayerStatus.READY
             ? PlayerStatus.NOT_READY
             : PlayerStatus.READY;
 
-      io.to(socket.room.code).emit(
+      emitToRoom(
+         socket.room,
          "p-set-status",
          socket.player.id,
          socket.player.status
       );
 
-      if (socket.room.tryStartRoom()) {
-         // Send to each socket independently with their own player perspective
-         for (const player of socket.room.players.values()) {
-            const playerSocket = [...gameSockets.values()].find(
-               (s) => s.player.id === player.id
-            );
-
-            if (playerSocket) {
-               playerSocket.emit(
-                  "started-room",
-                  socket.room!.game.serialize(player.index)
-               );
-            }
-         }
+      startIfReady(socket.room);
+   });
+
+   on(socket, "add-bot", (level: unknown) => {
+      const room = socket.room;
+      if (!room || room.status !== RoomStatus.LOBBY) return;
+
+      if (!room.isOwner(socket.player.id)) {
+         refuse(socket, "Only the owner can add bots");
+         return;
+      }
+
+      if (!room.definition.botAction || !isBotLevel(level)) {
+         refuse(socket, "Bots are not available");
+         return;
       }
+
+      if (room.isFull()) {
+         refuse(socket, "Room is full");
+         return;
+      }
+
+      seatBot(room, level);
+      emitRoomList();
+
+      startIfReady(room);
+   });
+
+   on(socket, "remove-bot", (id: string) => {
+      const room = socket.room;
+      if (!room || room.status !== RoomStatus.LOBBY) return;
+      if (!room.isOwner(socket.player.id)) return;
+      const bot = room.getPlayer(id);
+      if (!bot?.bot) return;
+
+      room.removePlayer(id);
+      emitToRoom(room, "p-left-room", id);
+      announce(room, `${bot.name} left`);
+      emitRoomList();
    });
 
-   socket.on("bet-landlord", (bet: number) => {
-      if (
-         !socket.room ||
-         socket.room.status !== RoomStatus.PLAYING ||
-         socket.room.game.phase !== GamePhase.BIDDING
-      )
+   on(socket, "update-room", (update: unknown) => {
+      const room = socket.room;
+      if (!room || room.status !== RoomStatus.LOBBY) return;
+      if (!update || typeof update !== "object") return;
+
+      if (!room.isOwner(socket.player.id)) {
+         refuse(socket, "Only the owner can change the room");
+         return;
+      }
+
+      const { options, clock, settings, password } = update as RoomUpdate;
+      const resolved = resolveRoomSettings(room.definition, {
+         ...room.settings,
+         ...settings,
+      });
+      if (resolved.maxPlayers < room.players.size) {
+         refuse(socket, "More players are already seated");
          return;
+      }
+
+      room.settings = resolved;
+      holdFeedPosition(room);
+      if (options !== undefined) {
+         room.options = room.definition.resolveOptions(options);
+         room.game = room.definition.create(room.options);
+      }
+      if (clock !== undefined) room.clockSettings = resolveClock(clock);
+      if (password !== undefined) room.setPassword(cleanPassword(password));
+
+      for (const member of roomSockets(room)) {
+         if (!room.isSpectator(member.player.id))
+            sendRoom(member, room, "updated-room");
+      }
+      emitSpectatorRoom(room, "updated-room");
+      emitRoomList();
+   });
+
+   on(socket, "kick-player", (id: unknown) => {
+      const room = socket.room;
+      if (!room || typeof id !== "string" || id === socket.player.id) return;
 
-      if (socket.room.game.current.id !== socket.player.id) {
-         socket.emit("error", "Not your turn");
+      if (!room.isOwner(socket.player.id)) {
+         refuse(socket, "Only the owner can remove players");
          return;
       }
 
-      const result = socket.room.game.betLandlord(bet);
+      const spectating = room.isSpectator(id);
+      const target = spectating ? room.spectators.get(id) : room.getPlayer(id);
+      if (!target) return;
 
-      if (result === undefined) {
-         socket.emit("error", "Invalid bet");
+      if (!spectating && room.status !== RoomStatus.LOBBY) {
+         refuse(socket, "Players can only be removed between games");
          return;
       }
 
-      io.to(socket.room.code).emit("p-bet-landlord", bet);
+      const targetSocket = findPlayerSocket(id);
+      if (targetSocket?.room === room) {
+         targetSocket.leave(room.code);
+         targetSocket.leave(watchChannel(room));
+         targetSocket.join(MENU_ROOM);
+         targetSocket.room = undefined;
+         targetSocket.emit("kicked-room");
+      }
 
-      if (result) {
-         io.to(socket.room.code).emit(
-            "p-became-landlord",
+      if (spectating) {
+         room.removeSpectator(id);
+         io.to(room.code).emit("s-left-room", id);
+      } else {
+         room.removePlayer(id);
+         emitToRoom(room, "p-left-room", id);
+      }
+
+      announce(room, `${target.name} was removed by the owner`);
+      emitRoomList();
+   });
+
+   on(socket, "send-chat", (raw: unknown) => {
+      const room = socket.room;
+      const text = cleanMessage(raw);
+      if (!room || !text) return;
+
+      if (!allowMessage(socket.player.id)) {
+         refuse(socket, "You are sending messages too quickly");
+         return;
+      }
+
+      const message = filterMessage(text, CHAT_FILTER);
+      if (room.isSpectator(socket.player.id)) {
+         room.spectatorChat.push(spectatorMessage(socket.player.id, message));
+         io.to(watchChannel(room)).emit(
+            "s-sent-chat",
             socket.player.id,
-            socket.room.game.bottom
+            message
          );
-         socket.room.game.becomeLandlord();
+         return;
       }
+
+      room.chat.push(playerMessage(socket.player.id, message));
+      emitToRoom(room, "p-sent-chat", socket.player.id, message);
    });
 
-   socket.on("play-cards", (cards: Card[]) => {
-      if (
-         !socket.room ||
-         socket.room.status !== RoomStatus.PLAYING ||
-         socket.room.game.phase !== GamePhase.PLAYING
-      )
+   on(socket, "send-emote", (emote: unknown) => {
+      const room = socket.room;
+      if (!room || !isEmote(emote) || room.isSpectator(socket.player.id))
          return;
+      if (!allowMessage(socket.player.id)) return;
 
-      const result = socket.room.game.playCards(cards);
+      emitToRoom(room, "p-sent-emote", socket.player.id, emote);
+   });
 
-      if (result === undefined) {
-         socket.emit("error", "Cannot play these cards");
-         return;
+   on(socket, "get-stats", (ids: unknown) => {
+      socket.emit("sent-stats", lookupStats(ids));
+   });
+
+   on(socket, "game-action", (action: unknown) => {
+      const room = socket.room;
+      const error =
+         room && room.status === RoomStatus.PLAYING
+            ? applyAction(room, room.getPlayer(socket.player.id)?.index, action)
+            : actionError(ActionErrorCode.WRONG_PHASE, "No game in progress");
+
+      if (!error) return;
+
+      errorCount.inc({ type: error.code });
+      log(LogLevel.WARN, "action-rejected", {
+         room: room?.code,
+         player: socket.player.id,
+         code: error.code,
+         message: error.message,
+      });
+      socket.emit("action-error", error.code, error.message);
+   });
+}
+
+// Time each handler, and keep one that throws from taking the server down
+function on<A extends unknown[]>(
+   socket: GameSocket,
+   event: string,
+   handler: (...arguments_: A) => void
+): void {
+   socket.on(event, (...arguments_: A) => {
+      const start = performance.now();
+      try {
+         handler(...arguments_);
+      } catch (error) {
+         errorCount.inc({ type: "handler" });
+         log(LogLevel.ERROR, "handler-failed", {
+            room: socket.room?.code,
+            player: socket.player.id,
+            event,
+            error,
+         });
+      } finally {
+         handlerLatency.observe({ event }, (performance.now() - start) / 1000);
       }
+   });
+}
+
+// Turn down a request, telling the client why
+function refuse(socket: GameSocket, message: string): void {
+   log(LogLevel.INFO, "request-refused", {
+      room: socket.room?.code,
+      player: socket.player.id,
+      message,
+   });
+   socket.emit("error", message);
+}
 
-      io.to(socket.room.code).emit("p-played-cards", cards);
+function seatBot(room: Room, level: BotLevel): void {
+   const bot = createBot(room, level);
+   room.addPlayer(bot);
+   emitToRoom(room, "p-joined-room", bot.id, bot.name, bot.bot);
+   emitToRoom(room, "p-set-status", bot.id, bot.status);
+   announce(room, `${bot.name} joined`);
+}
+
+// Seat a quick-play match in a fresh room, ready everyone and deal
+function startMatch(match: Match): void {
+   const { definition, options, sockets } = match;
+   if (isDraining()) {
+      for (const socket of sockets) refuse(socket, DRAINING_MESSAGE);
+      return;
+   }
 
-      if (result) {
-         const isLandlord = socket.player.id === socket.room.game.landlord?.id;
-         const reason = isLandlord ? "Landlord victory!" : "Farmers victory!";
+   const code = createRoom(
+      definition,
+      options,
+      resolveClock(),
+      resolveRoomSettings(definition, { maxPlayers: definition.tablePlayers })
+   );
+   if (!code) {
+      for (const socket of sockets) refuse(socket, "Room limit reached");
+      return;
+   }
 
-         io.to(socket.room.code).emit("ended-room", reason);
-         socket.room.endRoom();
+   const room = rooms.get(code)!;
+   for (const socket of sockets) {
+      joinRoom(socket, io, code);
+      socket.player.status = PlayerStatus.READY;
+      emitToRoom(room, "p-set-status", socket.player.id, socket.player.status);
+   }
+
+   for (let index = 0; index < match.bots; index++)
+      seatBot(room, BotLevel.NORMAL);
+
+   emitRoomList();
+   startIfReady(room);
+}
+
+function startIfReady(room: Room): void {
+   const countError = room.checkPlayerCount();
+   if (countError && room.allPlayersReady()) {
+      io.to(room.code).emit("error", countError);
+      return;
+   }
+
+   holdFeedPosition(room);
+   const seed = nextSeed();
+   if (room.tryStartRoom(seed, hashSeed(seed))) {
+      gamesStarted.inc({ game: room.definition.id });
+      log(LogLevel.INFO, "game-started", {
+         room: room.code,
+         game: room.definition.id,
+         variant: room.variant(),
+         seedHash: room.seedHash,
+      });
+      emitGameState(room, "started-room", room.seedHash);
+      runTurnClock(room);
+      playBotTurn(room);
+   }
+}
+
+// Human sockets and bots both move through here
+function applyAction(
+   room: Room,
+   playerIndex: number | undefined,
+   action: unknown
+): ActionError | undefined {
+   // Only the validated action goes on to the log and the table
+   const applied = room.applyAction(playerIndex, action);
+   if (isActionError(applied)) return applied;
+
+   stopTurnClock(room);
+   log(LogLevel.INFO, "game-action", {
+      room: room.code,
+      player: room.game.players[playerIndex!]?.id,
+      seat: playerIndex,
+      action: applied,
+   });
+   emitGameState(room, "updated-game", playerIndex, applied);
+
+   const result = room.definition.result(room.game);
+   if (result) {
+      gamesFinished.inc({ game: room.definition.id, end: "result" });
+      log(LogLevel.INFO, "game-finished", {
+         room: room.code,
+         game: room.definition.id,
+         reason: result.reason,
+      });
+      room.recordResult(result);
+      recordStats(room, result);
+      recordGame(room, result);
+      if (room.log) saveReplay(room.log);
+
+      emitToRoom(
+         room,
+         "ended-room",
+         result.reason,
+         Object.fromEntries(room.scoreboard),
+         room.log?.id
+      );
+
+      const ownerId = room.ownerId;
+      room.endRoom();
+      announceNewOwner(room, ownerId);
+   }
+
+   runTurnClock(room);
+   playBotTurn(room);
+}
+
+// Hold bot moves and the turn clock until the room is restored
+export function pauseRoom(room: Room): void {
+   cancelBotTurn(room);
+   stopTurnClock(room);
+}
+
+// Stop a running game with no result; the scoreboard stays as it was
+export function forceEndRoom(room: Room, reason: string): void {
+   pauseRoom(room);
+   gamesFinished.inc({ game: room.definition.id, end: "forced" });
+   log(LogLevel.INFO, "game-finished", {
+      room: room.code,
+      game: room.definition.id,
+      reason,
+      forced: true,
+   });
+   emitToRoom(room, "ended-room", reason, Object.fromEntries(room.scoreboard));
+
+   const ownerId = room.ownerId;
+   room.endRoom();
+   announceNewOwner(room, ownerId);
+
+   if (shouldDeleteRoom(room)) deleteRoom(room.code);
+   else emitRoomList();
+}
+
+// Time the player now on turn and tell the table how long they have
+function runTurnClock(room: Room): void {
+   startTurnClock(room, (playerIndex) => {
+      announce(room, `${room.game.players[playerIndex].name} ran out of time`);
+
+      const action = room.definition.timeoutAction(room.game, playerIndex);
+      const error = applyAction(room, playerIndex, action);
+      if (error) {
+         errorCount.inc({ type: "timeout_move" });
+         log(LogLevel.ERROR, "timeout-move-rejected", {
+            room: room.code,
+            seat: playerIndex,
+            message: error.message,
+         });
       }
    });
+
+   if (room.clock && room.status === RoomStatus.PLAYING)
+      emitToRoom(room, "updated-clock", room.clock.serialize());
 }
 
-function createRoom(roomCode?: string): string | undefined {
+function playBotTurn(room: Room): void {
+   scheduleBotTurn(room, (playerIndex, action) => {
+      const error = applyAction(room, playerIndex, action);
+      if (!error) return;
+
+      errorCount.inc({ type: "bot_move" });
+      log(LogLevel.ERROR, "bot-move-rejected", {
+         room: room.code,
+         seat: playerIndex,
+         message: error.message,
+      });
+   });
+}
+
+// Send each player in the room the game from their own perspective
+function emitGameState(room: Room, event: string, ...arguments_: unknown[]) {
+   for (const player of room.players.values()) {
+      const playerSocket = findPlayerSocket(player.id);
+      if (!playerSocket) continue;
+
+      const viewer = viewerFor(player.index);
+      const data = room.definition.serialize(room.game, viewer);
+      sendSnapshot(
+         playerSocket,
+         event,
+         data,
+         room.definition.findLeak(data, viewer),
+         ...arguments_
+      );
+   }
+
+   const viewer = spectatorViewer(room);
+   const data = room.definition.serialize(room.game, viewer);
+   const leak = room.definition.findLeak(data, viewer);
+   emitToSpectators(
+      room,
+      [data, ...arguments_],
+      (socket, [snapshot, ...rest]) => {
+         sendSnapshot(socket, event, snapshot, leak, ...rest);
+      }
+   );
+}
+
+// Players hear it now; spectators when their feed reaches this point
+function emitToRoom(room: Room, event: string, ...arguments_: unknown[]) {
+   io.to(room.code)
+      .except(watchChannel(room))
+      .emit(event, ...arguments_);
+   emitToSpectators(room, arguments_, (socket, payload) => {
+      socket.emit(event, ...payload);
+   });
+}
+
+// A delayed feed sends a copy taken now: snapshots share arrays with the
+// live game, which would otherwise show later moves when the timer fires
+function emitToSpectators(
+   room: Room,
+   payload: unknown[],
+   send: (socket: GameSocket, payload: unknown[]) => void
+): void {
+   const deliver = (sent: unknown[]) => {
+      for (const id of room.spectators.keys()) {
+         const spectatorSocket = findPlayerSocket(id);
+         if (spectatorSocket?.room === room) send(spectatorSocket, sent);
+      }
+   };
+
+   const delay = room.settings.spectatorDelay * 1000;
+   if (delay > 0) {
+      const feed = delayedFeed(room);
+      const copy = structuredClone(payload);
+      const shown = structuredClone(room.serialize(DELAYED_SPECTATOR));
+      feed.pending++;
+      setTimeout(() => {
+         feed.pending--;
+         feed.shown = shown;
+         deliver(copy);
+      }, delay);
+   } else {
+      deliver(payload);
+   }
+}
+
+// Spectators see public state, or every hand when the feed is delayed
+function spectatorViewer(room: Room): Viewer {
+   return room.settings.spectatorDelay > 0 ? DELAYED_SPECTATOR : SPECTATOR;
+}
+
+function delayedFeed(room: Room): DelayedFeed {
+   let feed = delayedFeeds.get(room.code);
+   if (!feed) {
+      feed = { shown: undefined, pending: 0 };
+      delayedFeeds.set(room.code, feed);
+   }
+   return feed;
+}
+
+// With nothing in flight the feed has caught up with the room; keep that
+// view for spectators who join before the coming change reaches them
+function holdFeedPosition(room: Room): void {
+   if (room.settings.spectatorDelay === 0) return;
+
+   const feed = delayedFeed(room);
+   if (feed.pending === 0)
+      feed.shown = structuredClone(room.serialize(DELAYED_SPECTATOR));
+}
+
+// The room as the spectator feed shows it now. The list of spectators is
+// always current, as they join and leave live
+function spectatorRoom(room: Room): SerializedRoom {
+   const live = room.serialize(spectatorViewer(room));
+   const feed = delayedFeeds.get(room.code);
+   if (!feed?.shown || feed.pending === 0) return live;
+
+   return { ...feed.shown, spectators: live.spectators };
+}
+
+// A lobby change reaches spectators in step with the rest of their feed
+function emitSpectatorRoom(room: Room, event: string): void {
+   const viewer = spectatorViewer(room);
+   const data = room.serialize(viewer);
+   const leak = room.findLeak(data, viewer);
+   emitToSpectators(room, [data], (socket, [snapshot]) => {
+      sendSnapshot(socket, event, snapshot, leak);
+   });
+}
+
+// Spectators share the room's channel and also have one of their own
+function watchChannel(room: Room): string {
+   return `${room.code}:watch`;
+}
+
+// System message for everyone in the room, kept in its chat history
+function announce(room: Room, message: string): void {
+   room.chat.push(systemMessage(message));
+   emitToRoom(room, "sent-system-chat", message);
+}
+
+// Spectators get the room as their feed shows it, and their own chat
+function sendRoom(socket: GameSocket, room: Room, event = "joined-room"): void {
+   if (room.isSpectator(socket.player.id)) {
+      const viewer = spectatorViewer(room);
+      const data = spectatorRoom(room);
+      sendSnapshot(
+         socket,
+         event,
+         data,
+         room.findLeak(data, viewer),
+         room.spectatorChat.serialize()
+      );
+      return;
+   }
+
+   const viewer = viewerFor(room.getPlayer(socket.player.id)?.index);
+   const data = room.serialize(viewer);
+   sendSnapshot(socket, event, data, room.findLeak(data, viewer));
+}
+
+// Last line of defence: a snapshot that reveals hidden cards is never sent.
+// The client is told its view is stale rather than left to drift
+function sendSnapshot(
+   socket: GameSocket,
+   event: string,
+   data: unknown,
+   leak: string | undefined,
+   ...arguments_: unknown[]
+): void {
+   if (leak) {
+      errorCount.inc({ type: "leak" });
+      log(LogLevel.ERROR, "snapshot-withheld", {
+         room: socket.room?.code,
+         player: socket.player.id,
+         event,
+         leak,
+      });
+      socket.emit("error", "The table could not be updated; rejoin to resync");
+      return;
+   }
+
+   socket.emit(event, data, ...arguments_);
+}
+
+function findPlayerSocket(id: string): GameSocket | undefined {
+   return [...gameSockets.values()].find((s) => s.player.id === id);
+}
+
+// Connected sockets of everyone in the room, spectators included
+function roomSockets(room: Room): GameSocket[] {
+   return [...gameSockets.values()].filter((s) => s.room === room);
+}
+
+function cleanPassword(password: unknown): string | undefined {
+   return typeof password === "string"
+      ? password.trim().slice(0, 50) || undefined
+      : undefined;
+}
+
+// Ask for the password unless the right one was given
+function checkPassword(
+   socket: GameSocket,
+   room: Room,
+   password: unknown,
+   watching: boolean
+): boolean {
+   if (room.password === undefined || password === room.password) return true;
+
+   socket.emit(
+      "password-required",
+      room.code,
+      watching,
+      password !== undefined
+   );
+   return false;
+}
+
+function createRoom(
+   definition: GameDefinition,
+   options: unknown,
+   clock: ClockSettings,
+   settings: RoomSettings,
+   password?: string,
+   roomCode?: string
+): string | undefined {
    if (rooms.size >= 10_000) return;
    const code = roomCode || randomCode();
-   const room = new Room(code);
+   const room = new Room(code, definition, options);
+   room.clockSettings = clock;
+   room.settings = settings;
+   room.setPassword(password);
    rooms.set(code, room);
+   holdFeedPosition(room);
+   log(LogLevel.INFO, "room-created", { room: code, game: definition.id });
 
    return code;
 }
 
-function joinRoom(socket: GameSocket, io: Server, code: string): void {
+function joinRoom(
+   socket: GameSocket,
+   io: Server,
+   code: string,
+   password?: unknown
+): void {
    const room = rooms.get(code);
 
    if (!room) {
-      socket.emit("error", "Room not found");
+      refuse(socket, "Room not found");
       return;
    }
 
+   // Already resumed into this room on connect
+   if (socket.room === room) return;
+
+   // Latecomers watch the running game rather than wait unseated
+   const playerInRoom = room.players.get(socket.player.id);
+   if (!playerInRoom) {
+      if (room.status === RoomStatus.PLAYING) {
+         watchRoom(socket, code, password);
+         return;
+      }
+
+      if (!checkPassword(socket, room, password, false)) return;
+
+      if (room.settings.locked) {
+         refuse(socket, "Room is locked");
+         return;
+      }
+
+      if (room.isFull()) {
+         refuse(socket, "Room is full");
+         return;
+      }
+   }
+
    socket.leave(MENU_ROOM);
    socket.join(code);
    socket.room = room;
 
-   const playerInRoom = room.players.get(socket.player.id);
    if (playerInRoom) {
-      playerInRoom.status = PlayerStatus.NOT_READY;
-      socket.emit("joined-room", room.serialize());
-      socket
-         .to(socket.room.code)
-         .emit("p-set-status", socket.player.id, PlayerStatus.NOT_READY);
+      // Rebind to the seated player so hand and seat carry over
+      socket.player = playerInRoom;
+      playerInRoom.status =
+         room.status === RoomStatus.PLAYING
+            ? PlayerStatus.READY
+            : PlayerStatus.NOT_READY;
+      sendRoom(socket, room);
+      emitToRoom(room, "p-set-status", playerInRoom.id, playerInRoom.status);
+      if (room.status === RoomStatus.PLAYING)
+         announce(room, `${playerInRoom.name} reconnected`);
    } else {
       socket.player.status = PlayerStatus.NOT_READY;
       room.addPlayer(socket.player);
-      io.to(socket.room.code).emit(
-         "p-joined-room",
-         socket.player.id,
-         socket.player.name
-      );
-      socket.emit("joined-room", room.serialize());
+      emitToRoom(room, "p-joined-room", socket.player.id, socket.player.name);
+      sendRoom(socket, room);
+      announce(room, `${socket.player.name} joined`);
+   }
+
+   log(LogLevel.INFO, "room-joined", {
+      room: code,
+      player: socket.player.id,
+      resumed: playerInRoom !== undefined,
+   });
+}
+
+function watchRoom(socket: GameSocket, code: string, password?: unknown): void {
+   const room = rooms.get(code);
+
+   if (!room) {
+      refuse(socket, "Room not found");
+      return;
+   }
+
+   if (socket.room === room) return;
+
+   // A seated player resumes their seat instead
+   if (room.players.has(socket.player.id)) {
+      joinRoom(socket, io, code);
+      return;
+   }
+
+   if (!checkPassword(socket, room, password, true)) return;
+
+   socket.leave(MENU_ROOM);
+   socket.join([code, watchChannel(room)]);
+   socket.room = room;
+
+   room.addSpectator(socket.player);
+   socket.to(code).emit("s-joined-room", socket.player.id, socket.player.name);
+   sendRoom(socket, room);
+   log(LogLevel.INFO, "room-spectated", {
+      room: code,
+      player: socket.player.id,
+   });
+}
+
+// Put a reconnecting player back into the room they were playing in
+export function resumeRoom(socket: GameSocket): void {
+   const room = [...rooms.values()].find((r) =>
+      r.players.has(socket.player.id)
+   );
+   if (room) joinRoom(socket, io, room.code);
+}
+
+// Bring back the rooms snapshotted before the last shutdown; players rejoin
+// their seats as they reconnect
+export function restoreRooms(snapshots: Map<string, RoomSnapshot>): void {
+   for (const [code, data] of snapshots) {
+      let room: Room;
+      try {
+         room = Room.restore(data);
+      } catch (error) {
+         errorCount.inc({ type: "restore" });
+         log(LogLevel.ERROR, "room-restore-failed", { room: code, error });
+         storage.delete(Collection.ROOMS, code);
+         continue;
+      }
+
+      // Nobody is connected yet
+      room.spectators.clear();
+      for (const player of room.players.values())
+         if (!player.bot) player.status = PlayerStatus.DISCONNECTED;
+
+      rooms.set(code, room);
+      holdFeedPosition(room);
+      log(LogLevel.INFO, "room-restored", { room: code, status: room.status });
+      runTurnClock(room);
+      playBotTurn(room);
+   }
+
+   setTimeout(closeAbandonedRooms, RESTORE_GRACE);
+}
+
+// Drop restored rooms nobody came back to, and lobby seats left empty
+function closeAbandonedRooms(): void {
+   for (const room of rooms.values()) {
+      if (room.status === RoomStatus.LOBBY) {
+         for (const player of room.players.values()) {
+            if (player.status !== PlayerStatus.DISCONNECTED) continue;
+
+            room.removePlayer(player.id);
+            emitToRoom(room, "p-left-room", player.id);
+         }
+      }
+
+      if (shouldDeleteRoom(room)) deleteRoom(room.code);
    }
 }
 
@@ -177,6 +970,19 @@ function handlePlayerLeave(socket: GameSocket): void {
    if (!room) return;
 
    socket.leave(room.code);
+   socket.room = undefined;
+   log(LogLevel.INFO, "room-left", {
+      room: room.code,
+      player: socket.player.id,
+   });
+
+   if (room.isSpectator(socket.player.id)) {
+      socket.leave(watchChannel(room));
+      room.removeSpectator(socket.player.id);
+      io.to(room.code).emit("s-left-room", socket.player.id);
+      emitRoomList();
+      return;
+   }
 
    if (room.status === RoomStatus.LOBBY) handleLobbyPlayerLeave(socket, room);
    else handleGamePlayerDisconnect(socket, room);
@@ -185,18 +991,32 @@ function handlePlayerLeave(socket: GameSocket): void {
 }
 
 function handleLobbyPlayerLeave(socket: GameSocket, room: Room): void {
+   const ownerId = room.ownerId;
    room.removePlayer(socket.player.id);
-   socket.to(room.code).emit("p-left-room", socket.player.id);
+   emitToRoom(room, "p-left-room", socket.player.id);
+   announce(room, `${socket.player.name} left`);
+   announceNewOwner(room, ownerId);
    emitRoomList();
 }
 
+// Clients pass ownership on the same way; this only tells the table
+function announceNewOwner(room: Room, previousOwnerId?: string): void {
+   const owner = room.owner;
+   if (owner && owner.id !== previousOwnerId)
+      announce(room, `${owner.name} now owns the room`);
+}
+
 function handleGamePlayerDisconnect(socket: GameSocket, room: Room): void {
    const player = room.players.get(socket.player.id);
    if (player) {
       player.status = PlayerStatus.DISCONNECTED;
-      socket
-         .to(room.code)
-         .emit("p-set-status", socket.player.id, PlayerStatus.DISCONNECTED);
+      emitToRoom(
+         room,
+         "p-set-status",
+         socket.player.id,
+         PlayerStatus.DISCONNECTED
+      );
+      announce(room, `${player.name} disconnected`);
    }
 }
 
@@ -205,10 +1025,34 @@ function shouldDeleteRoom(room: Room): boolean {
 }
 
 function deleteRoom(roomCode: string): void {
+   const room = rooms.get(roomCode);
+   if (room) {
+      cancelBotTurn(room);
+      stopTurnClock(room);
+      closeForSpectators(room);
+   }
+
    rooms.delete(roomCode);
+   delayedFeeds.delete(roomCode);
+   log(LogLevel.INFO, "room-deleted", { room: roomCode });
+   storage.delete(Collection.ROOMS, roomCode);
    emitRoomList();
 }
 
+// Send anyone still watching a deleted room back to the menu
+function closeForSpectators(room: Room): void {
+   for (const id of room.spectators.keys()) {
+      const spectatorSocket = findPlayerSocket(id);
+      if (spectatorSocket?.room !== room) continue;
+
+      spectatorSocket.leave(room.code);
+      spectatorSocket.leave(watchChannel(room));
+      spectatorSocket.join(MENU_ROOM);
+      spectatorSocket.room = undefined;
+      spectatorSocket.emit("closed-room");
+   }
+}
+
 function randomCode(): string {
    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
    let result = "";
@@ -0,0 +1,138 @@
+import { randomBytes } from "node:crypto";
+import {
+   gameRecords,
+   leaderboardTotals,
+   playerStats,
+   saveGameRecord,
+   saveLeaderboardTotal,
+   totalKey,
+} from "server";
+import type { GameResult } from "../shared/definition";
+import type {
+   GameRecord,
+   LeaderboardEntry,
+   LeaderboardPage,
+   LeaderboardQuery,
+   RecordedSeat,
+} from "../shared/leaderboard";
+import { LeaderboardWindow, WINDOW_LENGTH } from "../shared/leaderboard";
+import type { Room } from "../shared/room";
+import { INITIAL_RATING } from "../shared/stats";
+
+// Keep a finished game for rankings. Games with a bot seated are left out,
+// as easy bots would otherwise be a shortcut up the board
+export function recordGame(room: Room, result: GameResult): void {
+   if (room.game.players.some((player) => player.bot)) return;
+
+   const seats: RecordedSeat[] = room.game.players.map((player, index) => ({
+      id: player.id,
+      name: player.name,
+      score: result.scores[index] ?? 0,
+      won: result.winners.includes(index),
+   }));
+
+   const record: GameRecord = {
+      id: room.log?.id ?? randomBytes(6).toString("hex"),
+      gameId: room.definition.id,
+      variant: room.variant(),
+      finishedAt: Date.now(),
+      seats,
+   };
+   saveGameRecord(record);
+   addToTotals(record);
+}
+
+function addToTotals(record: GameRecord): void {
+   for (const seat of record.seats) {
+      const key = {
+         gameId: record.gameId,
+         variant: record.variant,
+         id: seat.id,
+      };
+      const total = leaderboardTotals.get(totalKey(key)) ?? {
+         ...key,
+         name: seat.name,
+         games: 0,
+         wins: 0,
+         points: 0,
+      };
+
+      saveLeaderboardTotal({
+         ...total,
+         name: seat.name,
+         games: total.games + 1,
+         wins: total.wins + (seat.won ? 1 : 0),
+         points: total.points + seat.score,
+      });
+   }
+}
+
+// Players ranked by points won within the window, then by wins
+export function buildLeaderboard(query: LeaderboardQuery): LeaderboardPage {
+   const totals = new Map<string, LeaderboardEntry>();
+   const variants = new Set<string>();
+
+   // Every variant ever played is in the all-time totals
+   for (const total of leaderboardTotals.values()) {
+      if (query.gameId && total.gameId !== query.gameId) continue;
+      variants.add(total.variant);
+
+      if (query.window !== LeaderboardWindow.ALL_TIME) continue;
+      if (query.variant && total.variant !== query.variant) continue;
+      addToEntry(totals, total.id, total.name, total);
+   }
+
+   if (query.window !== LeaderboardWindow.ALL_TIME) {
+      const since = Date.now() - WINDOW_LENGTH[query.window];
+      for (const record of gameRecords.values()) {
+         if (query.gameId && record.gameId !== query.gameId) continue;
+         if (record.finishedAt < since) continue;
+         if (query.variant && record.variant !== query.variant) continue;
+
+         for (const seat of record.seats) {
+            addToEntry(totals, seat.id, seat.name, {
+               games: 1,
+               wins: seat.won ? 1 : 0,
+               points: seat.score,
+            });
+         }
+      }
+   }
+
+   const ranked = [...totals.values()].toSorted(
+      (a, b) => b.points - a.points || b.wins - a.wins || a.games - b.games
+   );
+   for (const [index, entry] of ranked.entries()) entry.rank = index + 1;
+
+   const start = (query.page - 1) * query.pageSize;
+   return {
+      query,
+      total: ranked.length,
+      entries: ranked.slice(start, start + query.pageSize),
+      variants: [...variants].toSorted(),
+   };
+}
+
+// Records run oldest first, so the latest name wins
+function addToEntry(
+   totals: Map<string, LeaderboardEntry>,
+   id: string,
+   name: string,
+   results: Pick<LeaderboardEntry, "games" | "wins" | "points">
+): void {
+   const entry = totals.get(id) ?? {
+      rank: 0,
+      id,
+      name,
+      games: 0,
+      wins: 0,
+      points: 0,
+      rating: Math.round(playerStats.get(id)?.rating ?? INITIAL_RATING),
+   };
+
+   entry.name = name;
+   entry.games += results.games;
+   entry.wins += results.wins;
+   entry.points += results.points;
+   totals.set(id, entry);
+}
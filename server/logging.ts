@@ -0,0 +1,45 @@
+export enum LogLevel {
+   DEBUG = "debug",
+   INFO = "info",
+   WARN = "warn",
+   ERROR = "error",
+}
+
+const LEVELS = Object.values(LogLevel);
+
+// Quietest level written, from LOG_LEVEL; defaults to info
+export const LOG_LEVEL = LEVELS.includes(process.env.LOG_LEVEL as LogLevel)
+   ? (process.env.LOG_LEVEL as LogLevel)
+   : LogLevel.INFO;
+
+// Most entries say which room and player they concern; anything else is
+// written alongside as-is
+export interface LogFields {
+   room?: string;
+   player?: string;
+   [field: string]: unknown;
+}
+
+// One JSON object per line, warnings and errors on stderr
+export function log(
+   level: LogLevel,
+   event: string,
+   fields: LogFields = {}
+): void {
+   if (LEVELS.indexOf(level) < LEVELS.indexOf(LOG_LEVEL)) return;
+
+   const line = JSON.stringify(
+      { time: new Date().toISOString(), level, event, ...fields },
+      serializeError
+   );
+   if (level === LogLevel.WARN || level === LogLevel.ERROR)
+      process.stderr.write(`${line}\n`);
+   else process.stdout.write(`${line}\n`);
+}
+
+// Errors have no enumerable fields, so they would log as {}
+function serializeError(_key: string, value: unknown): unknown {
+   return value instanceof Error
+      ? { name: value.name, message: value.message, stack: value.stack }
+      : value;
+}
@@ -0,0 +1,121 @@
+import type { GameSocket } from "server";
+import type { GameDefinition } from "../shared/definition";
+
+// Seconds the longest-waiting player waits before bots fill the rest of the
+// table, from QUEUE_BOT_WAIT; 0 turns backfill off
+export const QUEUE_BOT_WAIT =
+   Math.max(0, Number(process.env.QUEUE_BOT_WAIT ?? 30)) || 0;
+
+// How often waiting queues are checked for backfill
+const BACKFILL_INTERVAL = 1000;
+
+interface QueueEntry {
+   socket: GameSocket;
+   joinedAt: number;
+}
+
+// Players waiting for one variant: a game with the same resolved options
+interface Queue {
+   definition: GameDefinition;
+   options: unknown;
+   entries: QueueEntry[];
+}
+
+// Players to seat together, plus how many bots fill the empty seats
+export interface Match {
+   definition: GameDefinition;
+   options: unknown;
+   sockets: GameSocket[];
+   bots: number;
+}
+
+// Waiting players per variant key
+const queues = new Map<string, Queue>();
+let backfillTimer: NodeJS.Timeout | undefined;
+
+// Queue the player for a variant; `start` seats each match that forms
+export function joinQueue(
+   socket: GameSocket,
+   definition: GameDefinition,
+   options: unknown,
+   start: (match: Match) => void
+): void {
+   leaveQueue(socket);
+
+   const key = `${definition.id}:${JSON.stringify(options)}`;
+   const queue = queues.get(key) ?? { definition, options, entries: [] };
+   queue.entries.push({ socket, joinedAt: Date.now() });
+   queues.set(key, queue);
+
+   while (queue.entries.length >= definition.tablePlayers)
+      start(takeMatch(key, queue, definition.tablePlayers));
+
+   emitPositions(queue);
+   scheduleBackfill(start);
+}
+
+// Returns whether the player was waiting
+export function leaveQueue(socket: GameSocket): boolean {
+   for (const [key, queue] of queues) {
+      const index = queue.entries.findIndex((entry) => entry.socket === socket);
+      if (index === -1) continue;
+
+      queue.entries.splice(index, 1);
+      if (queue.entries.length === 0) queues.delete(key);
+
+      socket.emit("left-queue");
+      emitPositions(queue);
+      return true;
+   }
+
+   return false;
+}
+
+function takeMatch(key: string, queue: Queue, count: number): Match {
+   const sockets = queue.entries.splice(0, count).map((entry) => entry.socket);
+   if (queue.entries.length === 0) queues.delete(key);
+
+   for (const socket of sockets) socket.emit("left-queue");
+
+   return {
+      definition: queue.definition,
+      options: queue.options,
+      sockets,
+      bots: queue.definition.tablePlayers - sockets.length,
+   };
+}
+
+function emitPositions(queue: Queue): void {
+   for (const [index, entry] of queue.entries.entries()) {
+      entry.socket.emit(
+         "updated-queue",
+         index + 1,
+         queue.entries.length,
+         queue.definition.tablePlayers
+      );
+   }
+}
+
+// MARK: Backfill
+
+function scheduleBackfill(start: (match: Match) => void): void {
+   if (QUEUE_BOT_WAIT === 0 || backfillTimer || queues.size === 0) return;
+   backfillTimer = setInterval(() => backfill(start), BACKFILL_INTERVAL);
+}
+
+// Fill tables with bots once their first player has waited long enough
+function backfill(start: (match: Match) => void): void {
+   const cutoff = Date.now() - QUEUE_BOT_WAIT * 1000;
+
+   for (const [key, queue] of queues) {
+      const [first] = queue.entries;
+      if (!queue.definition.botAction || first.joinedAt > cutoff) continue;
+
+      start(takeMatch(key, queue, queue.entries.length));
+   }
+
+   if (queues.size === 0) {
+      clearInterval(backfillTimer);
+      backfillTimer = undefined;
+   }
+}
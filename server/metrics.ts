@@ -0,0 +1,154 @@
+import { gameSockets, rooms } from "server";
+import { RoomStatus } from "../shared/room";
+
+type Labels = Record<string, string>;
+
+interface CounterSeries {
+   labels: Labels;
+   value: number;
+}
+
+interface HistogramSeries {
+   labels: Labels;
+   // Observations at or below each bound, not yet cumulative
+   buckets: number[];
+   sum: number;
+   count: number;
+}
+
+export class Counter {
+   private series = new Map<string, CounterSeries>();
+
+   constructor(
+      readonly name: string,
+      readonly help: string
+   ) {}
+
+   inc(labels: Labels = {}, amount = 1): void {
+      const key = formatLabels(labels);
+      const series = this.series.get(key) ?? { labels, value: 0 };
+      series.value += amount;
+      this.series.set(key, series);
+   }
+
+   render(): string[] {
+      const lines = header(this.name, this.help, "counter");
+      for (const [key, series] of this.series)
+         lines.push(`${this.name}${key} ${series.value}`);
+      return lines;
+   }
+}
+
+export class Histogram {
+   private series = new Map<string, HistogramSeries>();
+
+   constructor(
+      readonly name: string,
+      readonly help: string,
+      // Upper bounds, ascending
+      readonly bounds: number[]
+   ) {}
+
+   observe(labels: Labels, value: number): void {
+      const key = formatLabels(labels);
+      let series = this.series.get(key);
+      if (!series) {
+         series = {
+            labels,
+            buckets: this.bounds.map(() => 0),
+            sum: 0,
+            count: 0,
+         };
+         this.series.set(key, series);
+      }
+
+      const bucket = this.bounds.findIndex((bound) => value <= bound);
+      if (bucket !== -1) series.buckets[bucket]++;
+      series.sum += value;
+      series.count++;
+   }
+
+   render(): string[] {
+      const lines = header(this.name, this.help, "histogram");
+      for (const [key, series] of this.series) {
+         let cumulative = 0;
+         for (const [index, bound] of this.bounds.entries()) {
+            cumulative += series.buckets[index];
+            const le = formatLabels({ ...series.labels, le: String(bound) });
+            lines.push(`${this.name}_bucket${le} ${cumulative}`);
+         }
+
+         const inf = formatLabels({ ...series.labels, le: "+Inf" });
+         lines.push(
+            `${this.name}_bucket${inf} ${series.count}`,
+            `${this.name}_sum${key} ${series.sum}`,
+            `${this.name}_count${key} ${series.count}`
+         );
+      }
+      return lines;
+   }
+}
+
+export const gamesStarted = new Counter(
+   "cards_games_started_total",
+   "Games dealt, by game"
+);
+
+export const gamesFinished = new Counter(
+   "cards_games_finished_total",
+   "Games ended, by game and whether they reached a result or were forced"
+);
+
+export const handlerLatency = new Histogram(
+   "cards_handler_duration_seconds",
+   "Time spent handling each socket event",
+   [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1]
+);
+
+export const errorCount = new Counter(
+   "cards_errors_total",
+   "Rejected actions by error code, and server-side failures by kind"
+);
+
+// Everything in the Prometheus text format; gauges are read off live state
+export function renderMetrics(): string {
+   const roomCounts = new Map(
+      Object.values(RoomStatus).map((status) => [status, 0])
+   );
+   for (const room of rooms.values())
+      roomCounts.set(room.status, (roomCounts.get(room.status) ?? 0) + 1);
+
+   const lines = [
+      ...header("cards_sockets", "Connected sockets", "gauge"),
+      `cards_sockets ${gameSockets.size}`,
+      ...header("cards_rooms", "Open rooms, by status", "gauge"),
+   ];
+   for (const [status, count] of roomCounts)
+      lines.push(`cards_rooms${formatLabels({ status })} ${count}`);
+
+   lines.push(
+      ...gamesStarted.render(),
+      ...gamesFinished.render(),
+      ...handlerLatency.render(),
+      ...errorCount.render()
+   );
+   return `${lines.join("\n")}\n`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+   return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function formatLabels(labels: Labels): string {
+   const pairs = Object.entries(labels).map(
+      ([name, value]) => `${name}="${escapeLabel(value)}"`
+   );
+   return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function escapeLabel(value: string): string {
+   return value
+      .replaceAll("\\", String.raw`\\`)
+      .replaceAll('"', String.raw`\"`)
+      .replaceAll("\n", String.raw`\n`);
+}
@@ -1,19 +1,50 @@
+import { adminRouter } from "admin";
+import { apiRouter } from "api";
 import express from "express";
-import { setupHandlers } from "handlers";
+import { FORCED_SEED } from "fairness";
+import { restoreRooms, resumeRoom, setupHandlers } from "handlers";
+import { log, LogLevel } from "logging";
+import { renderMetrics } from "metrics";
 import { randomBytes } from "node:crypto";
 import http from "node:http";
 import path from "node:path";
 import { Server, Socket } from "socket.io";
+import { handleShutdownSignals, readShutdownSnapshot } from "shutdown";
+import { Collection, openStorage } from "storage";
+import type { GameRecord, LeaderboardTotal } from "../shared/leaderboard";
+import { LeaderboardWindow, WINDOW_LENGTH } from "../shared/leaderboard";
 import { Player } from "../shared/player";
-import type { Room } from "../shared/room";
+import type { Replay, SerializedReplay } from "../shared/replay";
+import type { Room, RoomSnapshot } from "../shared/room";
+import type { PlayerStats } from "../shared/stats";
 
 const app = express();
 const server = http.createServer(app);
 export const io = new Server(server);
 
+export const storage = openStorage();
+
 export const rooms = new Map<string, Room>();
-export const profiles = new Map<string, Profile>();
+export const profiles = storage.load<Profile>(Collection.PROFILES);
+// Banned profile IDs; their saved credentials are refused on connect
+export const bans = storage.load<Ban>(Collection.BANS);
+// Lifetime stats per profile ID, for humans who have finished a game
+export const playerStats = storage.load<PlayerStats>(Collection.STATS);
 export const gameSockets = new Map<string, GameSocket>();
+// Finished games by replay ID, oldest first
+export const replays = storage.load<SerializedReplay>(Collection.REPLAYS);
+// Results of recent finished games for the windowed rankings, oldest first
+export const gameRecords = storage.load<GameRecord>(Collection.GAMES);
+// All-time results per player and variant, keyed by totalKey
+export const leaderboardTotals = storage.load<LeaderboardTotal>(
+   Collection.LEADERBOARD
+);
+
+const MAX_REPLAYS = 1000;
+// Game records outlive the longest windowed ranking by no more than this
+const GAME_RECORD_RETENTION = WINDOW_LENGTH[LeaderboardWindow.WEEKLY];
+// How often running rooms are written to storage, in milliseconds
+const SNAPSHOT_INTERVAL = 10_000;
 
 export const MENU_ROOM = "*";
 
@@ -28,6 +59,11 @@ export interface Profile {
    auth: string;
 }
 
+export interface Ban {
+   name: string;
+   bannedAt: number;
+}
+
 const publicPath = path.join(__dirname, "..", "..", "public");
 
 app.use(express.static(publicPath));
@@ -39,29 +75,59 @@ app.get("/games/:roomCode", (request, response) => {
    response.sendFile("index.html", { root: publicPath });
 });
 
+app.use("/api/v1/admin", adminRouter);
+app.use("/api/v1", apiRouter);
+app.get("/admin", (_request, response) => {
+   response.sendFile("admin.html", { root: publicPath });
+});
+// Served here before the API was versioned
+app.get("/api/leaderboard", (request, response) => {
+   response.redirect(
+      308,
+      request.originalUrl.replace("/api/leaderboard", "/api/v1/leaderboard")
+   );
+});
+
+// Prometheus text format
+app.get("/metrics", (_request, response) => {
+   response.type("text/plain; version=0.0.4").send(renderMetrics());
+});
+
+app.get("/replays/:id", (request, response) => {
+   const replay = replays.get(request.params.id);
+   if (!replay) return response.status(404).send("Replay not found");
+
+   if (request.accepts(["html", "json"]) === "json")
+      return response.json(replay);
+
+   response.sendFile("replay.html", { root: publicPath });
+});
+
 io.on("connection", (socket: Socket) => {
    const gameSocket = socket as GameSocket;
 
-   if (gameSocket.handshake.auth.playerID && gameSocket.handshake.auth.token) {
-      const profile = profiles.get(gameSocket.handshake.auth.playerID);
-      if (profile && profile.auth === gameSocket.handshake.auth.token) {
-         gameSocket.player = new Player(
-            gameSocket.handshake.auth.playerID,
-            profile.name
-         );
-
-         gameSocket.emit("sent-player", profile.name);
-      } else {
-         gameSocket.disconnect();
+   const profile = profiles.get(gameSocket.handshake.auth.playerID);
+   if (profile && profile.auth === gameSocket.handshake.auth.token) {
+      if (bans.has(profile.id)) {
+         log(LogLevel.WARN, "connection-refused", {
+            player: profile.id,
+            reason: "banned",
+         });
+         gameSocket.emit("removed-server", "This profile has been banned");
+         gameSocket.disconnect(true);
          return;
       }
+
+      gameSocket.player = new Player(profile.id, profile.name);
+      gameSocket.emit("sent-player", profile.name);
    } else {
+      // Unknown or stale credentials start a fresh profile
       const id = randomPlayerID();
       const auth = randomAuth();
       const player = new Player(id);
 
       gameSocket.player = player;
-      profiles.set(id, {
+      saveProfile({
          name: player.name,
          id,
          auth,
@@ -70,18 +136,37 @@ io.on("connection", (socket: Socket) => {
       gameSocket.emit("created-player", id, auth);
    }
 
+   // A reconnect replaces any socket the player still has open. The new one
+   // is registered first, so the old one's disconnect leaves the seat alone
    gameSockets.set(gameSocket.id, gameSocket);
+   for (const other of gameSockets.values()) {
+      if (other !== gameSocket && other.player.id === gameSocket.player.id)
+         other.disconnect(true);
+   }
+   log(LogLevel.INFO, "connected", {
+      player: gameSocket.player.id,
+      socket: gameSocket.id,
+   });
 
    gameSocket.join(MENU_ROOM);
    setupHandlers(gameSocket);
+   resumeRoom(gameSocket);
    emitRoomList();
 });
 
+// A clean shutdown's snapshot is newer than the periodic one
+restoreRooms(
+   readShutdownSnapshot() ?? storage.load<RoomSnapshot>(Collection.ROOMS)
+);
+setInterval(snapshotRooms, SNAPSHOT_INTERVAL);
+handleShutdownSignals();
+
 const PORT = process.env.PORT || 3000;
 server.listen(PORT, () => {
-   console.log(
-      `<< Started Server [${PORT}] on ${new Date().toLocaleString()} >> \n\n`
-   );
+   log(LogLevel.INFO, "server-started", {
+      port: PORT,
+      forcedSeed: FORCED_SEED,
+   });
 });
 
 function randomPlayerID(): string {
@@ -95,9 +180,63 @@ function randomAuth(): string {
    return randomBytes(32).toString("hex");
 }
 
+export function saveProfile(profile: Profile): void {
+   profiles.set(profile.id, profile);
+   storage.save(Collection.PROFILES, profile.id, profile);
+}
+
+export function saveStats(id: string, stats: PlayerStats): void {
+   playerStats.set(id, stats);
+   storage.save(Collection.STATS, id, stats);
+}
+
+export function saveReplay(replay: Replay): void {
+   const data = replay.serialize();
+   replays.set(replay.id, data);
+   storage.save(Collection.REPLAYS, replay.id, data);
+
+   if (replays.size > MAX_REPLAYS) {
+      const oldest = replays.keys().next().value!;
+      replays.delete(oldest);
+      storage.delete(Collection.REPLAYS, oldest);
+   }
+}
+
+export function saveGameRecord(record: GameRecord): void {
+   gameRecords.set(record.id, record);
+   storage.save(Collection.GAMES, record.id, record);
+
+   const cutoff = Date.now() - GAME_RECORD_RETENTION;
+   for (const [id, oldest] of gameRecords) {
+      if (oldest.finishedAt >= cutoff) break;
+
+      gameRecords.delete(id);
+      storage.delete(Collection.GAMES, id);
+   }
+}
+
+export function saveLeaderboardTotal(total: LeaderboardTotal): void {
+   const key = totalKey(total);
+   leaderboardTotals.set(key, total);
+   storage.save(Collection.LEADERBOARD, key, total);
+}
+
+export function totalKey(
+   total: Pick<LeaderboardTotal, "gameId" | "variant" | "id">
+): string {
+   return `${total.gameId}:${total.variant}:${total.id}`;
+}
+
+export function snapshotRooms(): void {
+   for (const room of rooms.values())
+      storage.save(Collection.ROOMS, room.code, room.snapshot());
+}
+
 export function emitRoomList(): void {
    io.to(MENU_ROOM).emit(
       "listed-rooms",
-      [...rooms.values()].map((room) => room.getRoomListing())
+      [...rooms.values()]
+         .filter((room) => !room.settings.unlisted)
+         .map((room) => room.getRoomListing())
    );
 }
@@ -0,0 +1,105 @@
+import { setDraining } from "admin";
+import { pauseRoom } from "handlers";
+import { log, LogLevel } from "logging";
+import fs from "node:fs";
+import path from "node:path";
+import type { Profile } from "server";
+import { io, profiles, rooms, saveProfile, storage } from "server";
+import { STORAGE_DIR } from "storage";
+import type { RoomSnapshot } from "../shared/room";
+
+// Rooms are written here on shutdown and read back on the next boot, from
+// SNAPSHOT_FILE; defaults to the storage directory
+export const SNAPSHOT_FILE =
+   process.env.SNAPSHOT_FILE ?? path.join(STORAGE_DIR ?? ".", "snapshot.json");
+
+// Milliseconds the restart notice has to reach clients
+const NOTICE_DELAY = 500;
+
+// Seated players' profiles ride along with their rooms: memory storage
+// forgets them, and the seats could never be claimed again
+interface ShutdownSnapshot {
+   rooms: Record<string, RoomSnapshot>;
+   profiles: Record<string, Profile>;
+}
+
+let shuttingDown = false;
+
+export function handleShutdownSignals(): void {
+   process.on("SIGTERM", shutdown);
+   process.on("SIGINT", shutdown);
+}
+
+// Stop opening rooms and warn everyone, then save every room as it stands.
+// Clients reconnect on their own once the server is back
+function shutdown(signal: NodeJS.Signals): void {
+   // A second signal exits without saving
+   if (shuttingDown) {
+      exitOn(signal);
+      return;
+   }
+
+   shuttingDown = true;
+   log(LogLevel.INFO, "shutdown-started", { signal });
+   setDraining(true);
+   io.emit(
+      "sent-notice",
+      "The server is restarting. Games will pick up where they left off"
+   );
+
+   setTimeout(() => {
+      const snapshot: ShutdownSnapshot = { rooms: {}, profiles: {} };
+      for (const room of rooms.values()) {
+         pauseRoom(room);
+         snapshot.rooms[room.code] = room.snapshot();
+
+         for (const id of room.players.keys()) {
+            const profile = profiles.get(id);
+            if (profile) snapshot.profiles[id] = profile;
+         }
+      }
+
+      fs.writeFileSync(`${SNAPSHOT_FILE}.tmp`, JSON.stringify(snapshot));
+      fs.renameSync(`${SNAPSHOT_FILE}.tmp`, SNAPSHOT_FILE);
+      storage.flush();
+
+      log(LogLevel.INFO, "rooms-saved", {
+         count: rooms.size,
+         file: SNAPSHOT_FILE,
+      });
+      exitOn(signal);
+   }, NOTICE_DELAY);
+}
+
+// Raise the signal again with no handler left, so the process ends as it
+// would have without one
+function exitOn(signal: NodeJS.Signals): void {
+   process.removeAllListeners("SIGTERM");
+   process.removeAllListeners("SIGINT");
+   process.kill(process.pid, signal);
+}
+
+// Rooms saved by the last shutdown, if there was one, with the profiles of
+// their players brought back; the file is removed once read so the same
+// rooms are never restored twice
+export function readShutdownSnapshot(): Map<string, RoomSnapshot> | undefined {
+   if (!fs.existsSync(SNAPSHOT_FILE)) return undefined;
+
+   try {
+      const data = JSON.parse(
+         fs.readFileSync(SNAPSHOT_FILE, "utf8")
+      ) as ShutdownSnapshot;
+      for (const profile of Object.values(data.profiles))
+         if (!profiles.has(profile.id)) saveProfile(profile);
+
+      return new Map(Object.entries(data.rooms));
+   } catch (error) {
+      log(LogLevel.ERROR, "snapshot-read-failed", {
+         file: SNAPSHOT_FILE,
+         error,
+      });
+      return undefined;
+   } finally {
+      fs.rmSync(SNAPSHOT_FILE, { force: true });
+   }
+}
@@ -0,0 +1,57 @@
+import { playerStats, saveStats } from "server";
+import type { GameResult } from "../shared/definition";
+import type { Room } from "../shared/room";
+import type { StatsSummary } from "../shared/stats";
+import {
+   emptyStats,
+   INITIAL_RATING,
+   ratingChanges,
+   recordOutcome,
+   summarizeStats,
+} from "../shared/stats";
+
+// Profiles looked up in one request, at most
+const MAX_LOOKUP = 10;
+
+// Fold a finished game into each human's stats. Bots keep no record, and a
+// game with any bot seated leaves ratings alone, so beating easy bots cannot
+// farm rating
+export function recordStats(room: Room, result: GameResult): void {
+   const { players } = room.game;
+   const outcomes = room.definition.outcomes(room.game);
+   const soloIndex = outcomes.findIndex((outcome) => outcome.soloSide);
+
+   const ratings = players.map(
+      (player) => playerStats.get(player.id)?.rating ?? INITIAL_RATING
+   );
+   const changes = players.some((player) => player.bot)
+      ? players.map(() => 0)
+      : ratingChanges(ratings, outcomes, result.winners.includes(soloIndex));
+
+   for (const [index, player] of players.entries()) {
+      if (player.bot) continue;
+
+      const stats = { ...(playerStats.get(player.id) ?? emptyStats()) };
+      recordOutcome(
+         stats,
+         outcomes[index],
+         result.winners.includes(index),
+         result.scores[index] ?? 0,
+         changes[index]
+      );
+      saveStats(player.id, stats);
+   }
+}
+
+// Summaries for the requested profiles that have played
+export function lookupStats(ids: unknown): Record<string, StatsSummary> {
+   const summaries: Record<string, StatsSummary> = {};
+   if (!Array.isArray(ids)) return summaries;
+
+   for (const id of ids.slice(0, MAX_LOOKUP)) {
+      const stats = typeof id === "string" && playerStats.get(id);
+      if (stats) summaries[id as string] = summarizeStats(stats);
+   }
+
+   return summaries;
+}
@@ -0,0 +1,133 @@
+import { log, LogLevel } from "logging";
+import fs from "node:fs";
+import path from "node:path";
+
+// Directory for durable data, from STORAGE_DIR; unset keeps everything in
+// memory and lost on restart
+export const STORAGE_DIR = process.env.STORAGE_DIR;
+
+// Batch writes that land within this many milliseconds
+const WRITE_DELAY = 1000;
+
+export enum Collection {
+   BANS = "bans",
+   GAMES = "games",
+   LEADERBOARD = "leaderboard",
+   PROFILES = "profiles",
+   REPLAYS = "replays",
+   ROOMS = "rooms",
+   STATS = "stats",
+}
+
+// Records are plain JSON-safe values, keyed by ID within each collection
+export interface Storage {
+   // Every record in the collection, in the order first saved
+   load<T>(collection: Collection): Map<string, T>;
+   save(collection: Collection, id: string, record: unknown): void;
+   delete(collection: Collection, id: string): void;
+   // Write out anything still pending
+   flush(): void;
+}
+
+export function openStorage(): Storage {
+   return STORAGE_DIR ? new FileStorage(STORAGE_DIR) : new MemoryStorage();
+}
+
+export class MemoryStorage implements Storage {
+   protected collections = new Map<Collection, Map<string, unknown>>();
+
+   load<T>(collection: Collection): Map<string, T> {
+      return new Map(this.records(collection)) as Map<string, T>;
+   }
+
+   save(collection: Collection, id: string, record: unknown): void {
+      this.records(collection).set(id, structuredClone(record));
+   }
+
+   delete(collection: Collection, id: string): void {
+      this.records(collection).delete(id);
+   }
+
+   flush(): void {}
+
+   protected records(collection: Collection): Map<string, unknown> {
+      let records = this.collections.get(collection);
+      if (!records) {
+         records = new Map();
+         this.collections.set(collection, records);
+      }
+
+      return records;
+   }
+}
+
+// One JSON file per collection, read on first use and rewritten whole
+export class FileStorage extends MemoryStorage {
+   private directory: string;
+   private dirty = new Set<Collection>();
+   private writeTimer: NodeJS.Timeout | undefined;
+
+   constructor(directory: string) {
+      super();
+      this.directory = directory;
+      fs.mkdirSync(directory, { recursive: true });
+   }
+
+   override save(collection: Collection, id: string, record: unknown): void {
+      super.save(collection, id, record);
+      this.markDirty(collection);
+   }
+
+   override delete(collection: Collection, id: string): void {
+      super.delete(collection, id);
+      this.markDirty(collection);
+   }
+
+   override flush(): void {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+
+      for (const collection of this.dirty) {
+         const file = this.file(collection);
+         const data = Object.fromEntries(this.records(collection));
+
+         // Write beside the file first so a crash never leaves it half-written
+         fs.writeFileSync(`${file}.tmp`, JSON.stringify(data));
+         fs.renameSync(`${file}.tmp`, file);
+      }
+
+      this.dirty.clear();
+   }
+
+   protected override records(collection: Collection): Map<string, unknown> {
+      if (!this.collections.has(collection))
+         this.collections.set(collection, this.read(collection));
+
+      return super.records(collection);
+   }
+
+   private read(collection: Collection): Map<string, unknown> {
+      const file = this.file(collection);
+      if (!fs.existsSync(file)) return new Map();
+
+      try {
+         const data = JSON.parse(fs.readFileSync(file, "utf8")) as Record<
+            string,
+            unknown
+         >;
+         return new Map(Object.entries(data));
+      } catch (error) {
+         log(LogLevel.ERROR, "storage-read-failed", { file, error });
+         return new Map();
+      }
+   }
+
+   private markDirty(collection: Collection): void {
+      this.dirty.add(collection);
+      this.writeTimer ??= setTimeout(() => this.flush(), WRITE_DELAY);
+   }
+
+   private file(collection: Collection): string {
+      return path.join(this.directory, `${collection}.json`);
+   }
+}
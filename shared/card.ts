@@ -17,3 +17,28 @@ export type Flipped = {
 };
 
 export type Card = Playing | Joker | Flipped;
+
+const SUITS = new Set<unknown>(["h", "d", "c", "s"]);
+
+// Whether untrusted data is a real (face-up) card
+export function isCard(value: unknown): value is Playing | Joker {
+   if (typeof value !== "object" || value === null) return false;
+
+   const card = value as Record<string, unknown>;
+   switch (card.type) {
+      case "Playing": {
+         return (
+            SUITS.has(card.suit) &&
+            Number.isInteger(card.rank) &&
+            (card.rank as number) >= 1 &&
+            (card.rank as number) <= 13
+         );
+      }
+      case "Joker": {
+         return card.color === "RED" || card.color === "BLACK";
+      }
+      default: {
+         return false;
+      }
+   }
+}
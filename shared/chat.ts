@@ -1,6 +1,59 @@
-export interface ChatMessage {
-   id: string;
-   message: string;
+export enum ChatMessageType {
+   // Typed by a player in the room
+   PLAYER = "player",
+   // Announced by the server, or noted locally by the client
+   SYSTEM = "system",
+   // Typed by a spectator; only other spectators see it
+   SPECTATOR = "spectator",
+}
+
+export type ChatMessage =
+   | { type: ChatMessageType.PLAYER; id: string; message: string }
+   | { type: ChatMessageType.SYSTEM; message: string }
+   | { type: ChatMessageType.SPECTATOR; id: string; message: string };
+
+export const MAX_MESSAGE_LENGTH = 200;
+const MAX_HISTORY = 100;
+
+// Quick reactions shown over the sender's seat rather than in the log
+export const EMOTES = ["👍", "👏", "😂", "😮", "😢", "😡"];
+
+export function playerMessage(id: string, message: string): ChatMessage {
+   return { type: ChatMessageType.PLAYER, id, message };
+}
+
+export function spectatorMessage(id: string, message: string): ChatMessage {
+   return { type: ChatMessageType.SPECTATOR, id, message };
+}
+
+export function systemMessage(message: string): ChatMessage {
+   return { type: ChatMessageType.SYSTEM, message };
+}
+
+export function isEmote(value: unknown): value is string {
+   return EMOTES.includes(value as string);
+}
+
+// Collapse whitespace and clamp the length; undefined when nothing is left
+export function cleanMessage(raw: unknown): string | undefined {
+   if (typeof raw !== "string") return;
+
+   const message = raw
+      .replaceAll(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_MESSAGE_LENGTH);
+   return message || undefined;
+}
+
+// Mask each filtered word, ignoring case, keeping its length
+export function filterMessage(message: string, words: string[]): string {
+   if (words.length === 0) return message;
+
+   const escaped = words.map((word) =>
+      word.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`)
+   );
+   const pattern = new RegExp(String.raw`\b(?:${escaped.join("|")})\b`, "gi");
+   return message.replaceAll(pattern, (match) => "*".repeat(match.length));
 }
 
 export class Chat {
@@ -23,8 +76,8 @@ export class Chat {
       return chat;
    }
 
-   push(id: string, message: string): void {
-      this.messages.push({ id, message });
-      if (this.messages.length > 100) this.messages.shift();
+   push(message: ChatMessage): void {
+      this.messages.push(message);
+      if (this.messages.length > MAX_HISTORY) this.messages.shift();
    }
 }
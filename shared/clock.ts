@@ -0,0 +1,106 @@
+import { clamp } from "./rules";
+
+export interface ClockSettings {
+   // Time for each move; 0 leaves the room untimed
+   moveSeconds: number;
+   // Extra time per player for the whole game, drawn once a move overruns
+   bankSeconds: number;
+}
+
+export const DEFAULT_CLOCK: ClockSettings = {
+   moveSeconds: 30,
+   bankSeconds: 0,
+};
+
+// Sanitize clock settings sent by a client, falling back to defaults per field
+export function resolveClock(data?: Partial<ClockSettings>): ClockSettings {
+   const clock = { ...DEFAULT_CLOCK };
+   if (!data || typeof data !== "object") return clock;
+
+   clock.moveSeconds =
+      data.moveSeconds === 0
+         ? 0
+         : clamp(data.moveSeconds, 5, 300, clock.moveSeconds);
+   clock.bankSeconds = clamp(data.bankSeconds, 0, 1800, clock.bankSeconds);
+   return clock;
+}
+
+export interface SerializedClock {
+   moveMs: number;
+   bankMs: number[];
+   seatIndex: number;
+   // Time already spent on the current move
+   elapsedMs: number;
+}
+
+// The running clock of one game. Snapshots carry elapsed time rather than
+// timestamps, so a client's own clock does not need to agree with the server
+export class TurnClock {
+   moveMs: number;
+   bankMs: number[];
+   seatIndex: number;
+   startedAt: number;
+
+   constructor(settings: ClockSettings, seats: number) {
+      this.moveMs = settings.moveSeconds * 1000;
+      this.bankMs = Array.from(
+         { length: seats },
+         () => settings.bankSeconds * 1000
+      );
+      this.seatIndex = 0;
+      this.startedAt = Date.now();
+   }
+
+   serialize(): SerializedClock {
+      return {
+         moveMs: this.moveMs,
+         bankMs: this.bankMs,
+         seatIndex: this.seatIndex,
+         elapsedMs: this.elapsed(),
+      };
+   }
+
+   static deserialize(data: SerializedClock): TurnClock {
+      const clock = new TurnClock({ moveSeconds: 0, bankSeconds: 0 }, 0);
+      clock.moveMs = data.moveMs;
+      clock.bankMs = data.bankMs;
+      clock.seatIndex = data.seatIndex;
+      clock.startedAt = Date.now() - data.elapsedMs;
+      return clock;
+   }
+
+   start(seatIndex: number): void {
+      this.seatIndex = seatIndex;
+      this.startedAt = Date.now();
+   }
+
+   // Charge the time spent past the move timer to the seat's bank
+   stop(): void {
+      const overrun = this.elapsed() - this.moveMs;
+      if (overrun > 0) {
+         this.bankMs[this.seatIndex] = Math.max(
+            0,
+            this.bankMs[this.seatIndex] - overrun
+         );
+      }
+   }
+
+   // Left on the move timer, before the bank is touched
+   moveRemaining(): number {
+      return Math.max(0, this.moveMs - this.elapsed());
+   }
+
+   bankRemaining(): number {
+      const overrun = Math.max(0, this.elapsed() - this.moveMs);
+      return Math.max(0, this.bankMs[this.seatIndex] - overrun);
+   }
+
+   // Until the seat times out
+   remaining(): number {
+      return this.moveRemaining() + this.bankRemaining();
+   }
+
+   private elapsed(): number {
+      return Date.now() - this.startedAt;
+   }
+}
@@ -0,0 +1,186 @@
+import { DdzAction } from "./ddz";
+import type { GameAction } from "./definition";
+import type { Game, Play } from "./game";
+import { GamePhase, Hand, PlayType } from "./game";
+import { BotLevel } from "./player";
+import { BiddingMode } from "./rules";
+
+// Opponents this close to going out make bots spend their bombs
+const BOMB_THRESHOLD: Record<BotLevel, number> = {
+   [BotLevel.EASY]: 0,
+   [BotLevel.NORMAL]: 2,
+   [BotLevel.HARD]: 5,
+};
+
+export function chooseBotAction(
+   game: Game,
+   playerIndex: number,
+   level: BotLevel
+): GameAction {
+   return game.phase === GamePhase.BIDDING
+      ? { type: DdzAction.BID, data: chooseBid(game, playerIndex, level) }
+      : choosePlay(game, playerIndex, level);
+}
+
+function chooseBid(game: Game, playerIndex: number, level: BotLevel): number {
+   const { bids, bidding } = game.rules;
+
+   let wanted: number;
+   if (level === BotLevel.EASY) {
+      wanted = Math.random() < 0.5 ? 0 : Math.ceil(Math.random() * bids.length);
+   } else {
+      // Scale the hand's strength onto the allowed bids
+      const strength = handStrength(
+         game.players[playerIndex].hand,
+         game.rules.handSize,
+         level
+      );
+      const fraction = Math.min(1, Math.max(0, (strength - 3) / 8));
+      wanted = Math.ceil(fraction * bids.length);
+   }
+
+   if (wanted === 0) return 0;
+   if (bidding === BiddingMode.ROB) return 1;
+
+   const bid = bids[wanted - 1];
+   return game.isValidBid(bid) ? bid : 0;
+}
+
+// Rough count of winning cards, normalised to a 17-card hand
+function handStrength(hand: Hand, handSize: number, level: BotLevel): number {
+   const groups = groupCounts(hand);
+   let strength = 0;
+
+   for (const [value, count] of groups) {
+      switch (value) {
+         // Red and black jokers, 2s and aces
+         case 54: {
+            strength += 4;
+            break;
+         }
+         case 53: {
+            strength += 3;
+            break;
+         }
+         case 20: {
+            strength += 2 * count;
+            break;
+         }
+         case 19: {
+            strength += count;
+            break;
+         }
+      }
+
+      if (count >= 4) strength += 4;
+      // Hard bots also count the low singles they will struggle to shed
+      if (level === BotLevel.HARD && count === 1 && value < 11) strength -= 0.5;
+   }
+
+   return (strength * 17) / handSize;
+}
+
+function choosePlay(
+   game: Game,
+   playerIndex: number,
+   level: BotLevel
+): GameAction {
+   const pass: GameAction = { type: DdzAction.PASS };
+   const hand = game.players[playerIndex].hand;
+   const moves = game.legalMoves(hand);
+
+   if (moves.length === 0) return pass;
+
+   // Going out always wins the trick
+   const finishing = moves.find(
+      (move) => move.cards.length === hand.cards.length
+   );
+   if (finishing) return playAction(finishing);
+
+   if (level === BotLevel.EASY) {
+      if (game.canPass() && Math.random() < 0.3) return pass;
+      return playAction(moves[Math.floor(Math.random() * moves.length)]);
+   }
+
+   const lastPlay = game.lastPlay;
+   const isFarmer = playerIndex !== game.landlordIndex;
+
+   // Let a fellow farmer's play stand
+   if (lastPlay && isFarmer && lastPlay.playerIndex !== game.landlordIndex)
+      return pass;
+
+   const whole = moves.filter((move) => !breaksGroups(move, hand));
+   const plain = (whole.length > 0 ? whole : moves).filter(
+      (move) => !isBomb(move)
+   );
+
+   if (!lastPlay) {
+      const opponentOnOne = opponentCounts(game, playerIndex).includes(1);
+
+      // Lead the weakest combination, shedding as many cards as possible
+      let leads = (plain.length > 0 ? plain : moves).toSorted(
+         (a, b) => a.value - b.value || b.cards.length - a.cards.length
+      );
+
+      // Hard bots avoid feeding a single to an opponent about to go out
+      if (level === BotLevel.HARD && opponentOnOne) {
+         const nonSolos = leads.filter((move) => move.type !== PlayType.SOLO);
+         leads = nonSolos.length > 0 ? nonSolos : leads.toReversed();
+      }
+
+      return playAction(leads[0]);
+   }
+
+   if (plain.length > 0) return playAction(plain[0]);
+
+   const bombs = moves.filter((move) => isBomb(move));
+   const threatened = opponentCounts(game, playerIndex).some(
+      (count) => count <= BOMB_THRESHOLD[level]
+   );
+   if (bombs.length > 0 && threatened) return playAction(bombs[0]);
+
+   return pass;
+}
+
+function playAction(move: Play): GameAction {
+   return { type: DdzAction.PLAY, data: move.cards };
+}
+
+function opponentCounts(game: Game, playerIndex: number): number[] {
+   const isLandlord = playerIndex === game.landlordIndex;
+
+   return game.players
+      .filter(
+         (player) =>
+            player.index !== playerIndex &&
+            (isLandlord || player.index === game.landlordIndex)
+      )
+      .map((player) => player.hand.cards.length);
+}
+
+function isBomb(move: Play): boolean {
+   return move.type === PlayType.BOMB || move.type === PlayType.ROCKET;
+}
+
+// Whether the move splits a pair, triple or bomb still held in the hand
+function breaksGroups(move: Play, hand: Hand): boolean {
+   const held = groupCounts(hand);
+   const used = groupCounts(new Hand(move.cards));
+
+   for (const [value, count] of used) {
+      const total = held.get(value) ?? 0;
+      if (count < total && total > 1) return true;
+   }
+
+   return false;
+}
+
+function groupCounts(hand: Hand): Map<number, number> {
+   const counts = new Map<number, number>();
+   for (const card of hand.cards) {
+      const value = Hand.getCardValue(card);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+   }
+
+   return counts;
+}
@@ -0,0 +1,224 @@
+import type { Card } from "./card";
+import { isCard } from "./card";
+import { chooseBotAction } from "./ddz-bot";
+import type { GameAction, GameDefinition, GameResult } from "./definition";
+import type { SerializedGame } from "./game";
+import { BidKind, Game, GamePhase, Hand, PlayType } from "./game";
+import type { GameRules } from "./rules";
+import { resolveRules } from "./rules";
+import type { SeatOutcome } from "./stats";
+import type { ActionError } from "./validation";
+import { actionError, ActionErrorCode } from "./validation";
+
+export enum DdzAction {
+   BID = "bid",
+   PLAY = "play",
+   PASS = "pass",
+}
+
+// Keys of the per-seat tallies Dou Dizhu adds to player stats
+export enum DdzCount {
+   // Bid or called for the landlord role at least once
+   BIDS = "bids",
+   BOMBS = "bombs",
+}
+
+export const douDizhu: GameDefinition<Game, SerializedGame, GameRules> = {
+   id: "ddz",
+   name: "Dou Dizhu",
+   minPlayers: 2,
+   maxPlayers: 4,
+   tablePlayers: 3,
+   actions: Object.values(DdzAction),
+
+   resolveOptions(data?: unknown): GameRules {
+      return resolveRules(data as Partial<GameRules> | undefined);
+   },
+
+   create(rules: GameRules): Game {
+      return new Game(rules);
+   },
+
+   start(game, players, seed): void {
+      game.startGame(players, seed);
+   },
+
+   clearSeat(player): void {
+      player.hand = new Hand([]);
+   },
+
+   // Turn and seat are already checked by validateAction
+   validate(game, playerIndex, action): ActionError | GameAction {
+      switch (action.type) {
+         case DdzAction.BID: {
+            if (game.phase !== GamePhase.BIDDING) {
+               return actionError(
+                  ActionErrorCode.WRONG_PHASE,
+                  "Bidding is over"
+               );
+            }
+            if (
+               typeof action.data !== "number" ||
+               !Number.isInteger(action.data)
+            ) {
+               return actionError(
+                  ActionErrorCode.BAD_PAYLOAD,
+                  "Bid must be a whole number"
+               );
+            }
+            if (!game.isValidBid(action.data)) {
+               return actionError(
+                  ActionErrorCode.INVALID_BID,
+                  "That bid is not allowed"
+               );
+            }
+            return { type: DdzAction.BID, data: action.data };
+         }
+         case DdzAction.PLAY: {
+            if (game.phase !== GamePhase.PLAYING) {
+               return actionError(
+                  ActionErrorCode.WRONG_PHASE,
+                  "Cards cannot be played yet"
+               );
+            }
+            if (
+               !Array.isArray(action.data) ||
+               action.data.length === 0 ||
+               !action.data.every((card) => isCard(card))
+            ) {
+               return actionError(
+                  ActionErrorCode.BAD_PAYLOAD,
+                  "Select cards to play"
+               );
+            }
+
+            const owned = game.players[playerIndex].hand.match(
+               action.data as Card[]
+            );
+            if (!owned) {
+               return actionError(
+                  ActionErrorCode.NOT_OWNED,
+                  "You do not hold those cards"
+               );
+            }
+            if (!game.findPlay(owned)) {
+               return actionError(
+                  ActionErrorCode.INVALID_PLAY,
+                  "Cannot play these cards"
+               );
+            }
+            // The hand's own cards, not the copies the client sent
+            return { type: DdzAction.PLAY, data: owned };
+         }
+         case DdzAction.PASS: {
+            if (game.phase !== GamePhase.PLAYING) {
+               return actionError(
+                  ActionErrorCode.WRONG_PHASE,
+                  "Nothing to pass on yet"
+               );
+            }
+            if (!game.canPass()) {
+               return actionError(
+                  ActionErrorCode.CANNOT_PASS,
+                  "You must lead this trick"
+               );
+            }
+            return { type: DdzAction.PASS };
+         }
+         default: {
+            return actionError(
+               ActionErrorCode.UNKNOWN_ACTION,
+               "Unknown action"
+            );
+         }
+      }
+   },
+
+   apply(game, _playerIndex, action: GameAction): void {
+      switch (action.type) {
+         case DdzAction.BID: {
+            if (game.betLandlord(action.data as number)) game.becomeLandlord();
+            break;
+         }
+         case DdzAction.PLAY: {
+            game.playCards(action.data as Card[]);
+            break;
+         }
+         case DdzAction.PASS: {
+            game.playCards([]);
+            break;
+         }
+      }
+   },
+
+   serialize(game, viewer): SerializedGame {
+      return game.serialize(viewer);
+   },
+
+   deserialize(data): Game {
+      return Game.deserialize(data);
+   },
+
+   findLeak(data, viewer): string | undefined {
+      return Game.findLeak(data, viewer);
+   },
+
+   botAction(game, playerIndex, level): GameAction {
+      return chooseBotAction(game, playerIndex, level);
+   },
+
+   // Pass a bid or a trick; a free lead plays the smallest single
+   timeoutAction(game, playerIndex): GameAction {
+      if (game.phase === GamePhase.BIDDING)
+         return { type: DdzAction.BID, data: 0 };
+      if (game.canPass()) return { type: DdzAction.PASS };
+
+      const moves = game.legalMoves(game.players[playerIndex].hand);
+      const lead =
+         moves.find((move) => move.type === PlayType.SOLO) ?? moves[0];
+      return { type: DdzAction.PLAY, data: lead.cards };
+   },
+
+   result(game): GameResult | undefined {
+      const settlement = game.settle();
+      if (!settlement) return;
+
+      const winners = game.players
+         .map((_, index) => index)
+         .filter(
+            (index) => (index === game.landlordIndex) === settlement.landlordWon
+         );
+
+      const bonus = settlement.spring
+         ? " Spring!"
+         : settlement.antiSpring
+           ? " Anti-spring!"
+           : "";
+
+      return {
+         winners,
+         reason: `${settlement.landlordWon ? "Landlord" : "Farmers"} victory!${bonus} (${settlement.base} × ${settlement.multiplier})`,
+         scores: settlement.scores,
+      };
+   },
+
+   outcomes(game): SeatOutcome[] {
+      return game.players.map((_, index) => {
+         const hasBid = game.bids.some(
+            (bid) => bid.playerIndex === index && bid.kind !== BidKind.PASS
+         );
+         return {
+            soloSide: index === game.landlordIndex,
+            counts: {
+               [DdzCount.BIDS]: hasBid ? 1 : 0,
+               [DdzCount.BOMBS]: game.bombs[index] ?? 0,
+            },
+         };
+      });
+   },
+
+   // Bidding style and table size, like "rob-3p"
+   variant(rules, players): string {
+      return `${rules.bidding}-${players}p`;
+   },
+};
@@ -0,0 +1,72 @@
+import type { BotLevel, Player } from "./player";
+import type { SeatOutcome } from "./stats";
+import type { ActionError } from "./validation";
+import type { Viewer } from "./visibility";
+
+export interface GameAction {
+   type: string;
+   data?: unknown;
+}
+
+export interface GameResult {
+   winners: number[];
+   reason: string;
+   // Points won (or lost, when negative) by each seat
+   scores: number[];
+}
+
+// The state every hosted game exposes to the room and the table UI
+export interface GameState {
+   players: Player[];
+   currentIndex: number;
+}
+
+export interface GameDefinition<
+   G extends GameState = GameState,
+   S = unknown,
+   O = unknown,
+> {
+   readonly id: string;
+   readonly name: string;
+   readonly minPlayers: number;
+   readonly maxPlayers: number;
+   // Seats quick play fills before starting a match
+   readonly tablePlayers: number;
+   readonly actions: readonly string[];
+
+   // Sanitize options sent by the room creator
+   resolveOptions(data?: unknown): O;
+   create(options: O): G;
+   // Seat the players and deal; the same seed always deals the same cards
+   start(game: G, players: Player[], seed?: string): void;
+   // Clear what a finished game left on a seat, as the room returns to lobby
+   clearSeat(player: Player): void;
+
+   // Game-specific checks on phase and payload. A legal action comes back
+   // holding only its type and the data the game reads
+   validate(
+      game: G,
+      playerIndex: number,
+      action: GameAction
+   ): ActionError | GameAction;
+   apply(game: G, playerIndex: number, action: GameAction): void;
+
+   // Snapshot of the game as this viewer may see it
+   serialize(game: G, viewer: Viewer): S;
+   deserialize(data: S): G;
+   // Hidden information a snapshot would reveal to the viewer, if any
+   findLeak(data: S, viewer: Viewer): string | undefined;
+
+   // Move for a bot seat; games without one cannot seat bots
+   botAction?(game: G, playerIndex: number, level: BotLevel): GameAction;
+
+   // Move made for a player whose clock runs out
+   timeoutAction(game: G, playerIndex: number): GameAction;
+
+   // Undefined until the game has ended
+   result(game: G): GameResult | undefined;
+   // Per-seat facts about a finished game, for player statistics
+   outcomes(game: G): SeatOutcome[];
+   // Short label grouping games played under comparable rules, for rankings
+   variant(options: O, players: number): string;
+}
@@ -1,6 +1,13 @@
 import type { Card, Rank, Suit } from "./card";
 import type { SerializedPlayer } from "./player";
+import { candidatePlays } from "./moves";
 import { Player } from "./player";
+import type { Random } from "./random";
+import { createRandom, randomSeed } from "./random";
+import type { Viewer } from "./visibility";
+import { ViewerRole } from "./visibility";
+import type { GameRules } from "./rules";
+import { BiddingMode, DEFAULT_RULES, maxBid, rulesForPlayers } from "./rules";
 
 export interface SerializedGame {
    bottom: Card[];
@@ -10,6 +17,23 @@ export interface SerializedGame {
    players: SerializedPlayer[];
    bet: number;
    landlordIndex: number | undefined;
+   bids: BidRecord[];
+   robs: number;
+   redeals: number;
+   bombs: number[];
+   plays: number[];
+   rules: GameRules;
+   seed?: string;
+}
+
+export interface Settlement {
+   landlordWon: boolean;
+   base: number;
+   bombs: number;
+   spring: boolean;
+   antiSpring: boolean;
+   multiplier: number;
+   scores: number[];
 }
 
 export class Game {
@@ -20,38 +44,67 @@ export class Game {
    landlordIndex: number | undefined = undefined;
    lastPlay: Play | undefined = undefined;
    phase: GamePhase = GamePhase.FINISHED;
+   bids: BidRecord[] = [];
+   robs: number = 0;
+   redeals: number = 0;
+   // Bombs and rockets played by each seat
+   bombs: number[] = [];
+   plays: number[] = [];
+   rules: GameRules;
+   // Drives every shuffle this round; players only see it once it is over
+   seed: string | undefined = undefined;
+
+   constructor(rules: GameRules = DEFAULT_RULES) {
+      this.rules = rules;
+   }
 
-   constructor() {}
-
-   serialize(toIndex?: number): SerializedGame {
-      if (toIndex === undefined) {
-         return {
-            bottom: this.bottom,
-            currentIndex: this.currentIndex,
-            lastPlay: this.lastPlay,
-            phase: this.phase,
-            players: this.players.map((p) => p.serialize(false)),
-            bet: this.bet,
-            landlordIndex: this.landlordIndex,
-         };
-      }
+   serialize(viewer: Viewer): SerializedGame {
+      const admin = viewer.role === ViewerRole.ADMIN;
 
-      // if toIndex !== index, send player with hand replaced with flipped cards
       return {
-         bottom: this.bottom,
+         // The bottom stays face down until the landlord takes it
+         bottom:
+            this.phase === GamePhase.BIDDING && !admin
+               ? this.bottom.map(() => ({ type: "Flipped" }))
+               : this.bottom,
          currentIndex: this.currentIndex,
          lastPlay: this.lastPlay,
          phase: this.phase,
-         players: this.players.map((player, index) =>
-            player.serialize(index !== toIndex)
-         ),
+         players: this.players.map((player) => player.serialize(viewer)),
          bet: this.bet,
          landlordIndex: this.landlordIndex,
+         bids: this.bids,
+         robs: this.robs,
+         redeals: this.redeals,
+         bombs: this.bombs,
+         plays: this.plays,
+         rules: this.rules,
+         seed:
+            admin || this.phase === GamePhase.FINISHED ? this.seed : undefined,
       };
    }
 
+   // What a snapshot for this viewer would wrongly reveal, if anything
+   static findLeak(data: SerializedGame, viewer: Viewer): string | undefined {
+      for (const player of data.players) {
+         const leak = Player.findLeak(player, viewer);
+         if (leak) return leak;
+      }
+
+      if (viewer.role === ViewerRole.ADMIN) return undefined;
+
+      if (
+         data.phase === GamePhase.BIDDING &&
+         data.bottom.some((card) => card.type !== "Flipped")
+      )
+         return "the bottom cards";
+
+      if (data.phase !== GamePhase.FINISHED && data.seed !== undefined)
+         return "the deal seed";
+   }
+
    static deserialize(data: SerializedGame): Game {
-      const game = new Game();
+      const game = new Game(data.rules);
       game.bottom = data.bottom;
       game.currentIndex = data.currentIndex;
       game.lastPlay = data.lastPlay;
@@ -59,6 +112,12 @@ export class Game {
       game.players = data.players.map((p) => Player.deserialize(p));
       game.bet = data.bet;
       game.landlordIndex = data.landlordIndex;
+      game.bids = data.bids;
+      game.robs = data.robs;
+      game.redeals = data.redeals;
+      game.bombs = data.bombs;
+      game.plays = data.plays;
+      game.seed = data.seed;
       return game;
    }
 
@@ -72,40 +131,64 @@ export class Game {
    }
 
    // Server Only
-   startGame(players: Player[]): void {
+   startGame(players: Player[], seed = randomSeed()): void {
+      const rules = rulesForPlayers(this.rules, players.length);
+      if (!rules)
+         throw new Error(`Cannot deal Dou Dizhu to ${players.length} players`);
+
+      this.rules = rules;
       this.players = [...players];
 
       for (const [index, player] of this.players.entries())
          player.index = index;
 
+      this.seed = seed;
+      this.redeals = 0;
+      this.deal();
+   }
+
+   // Server Only
+   private deal(): void {
       this.initializeDeck();
-      this.shuffleDeck();
+      // Each redeal reshuffles from the same seed
+      this.shuffleDeck(createRandom(`${this.seed}:${this.redeals}`));
       this.dealCards();
       this.phase = GamePhase.BIDDING;
-      this.currentIndex = 0;
+      // The first bidder moves one seat on with every redeal
+      this.currentIndex = this.redeals % this.players.length;
+      this.bet = 0;
+      this.landlordIndex = undefined;
+      this.bids = [];
+      this.robs = 0;
+      this.bombs = this.players.map(() => 0);
+      this.plays = this.players.map(() => 0);
    }
 
    // Server Only
    private initializeDeck(): void {
       this.bottom = [];
       const suits: Suit[] = ["h", "d", "c", "s"];
-      const ranks: Rank[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13];
+      const ranks = (
+         [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13] as Rank[]
+      ).filter((rank) => !this.rules.removedRanks.includes(rank));
+
+      for (let deck = 0; deck < this.rules.decks; deck++) {
+         for (const suit of suits) {
+            for (const rank of ranks)
+               this.bottom.push({ type: "Playing", suit, rank });
+         }
 
-      for (const suit of suits) {
-         for (const rank of ranks)
-            this.bottom.push({ type: "Playing", suit, rank });
+         this.bottom.push(
+            { type: "Joker", color: "BLACK" },
+            { type: "Joker", color: "RED" }
+         );
       }
-
-      this.bottom.push(
-         { type: "Joker", color: "BLACK" },
-         { type: "Joker", color: "RED" }
-      );
    }
 
    // Server Only
-   private shuffleDeck(): void {
+   private shuffleDeck(random: Random = Math.random): void {
       for (let index = this.bottom.length - 1; index > 0; index--) {
-         const index_ = Math.floor(Math.random() * (index + 1));
+         const index_ = Math.floor(random() * (index + 1));
          [this.bottom[index], this.bottom[index_]] = [
             this.bottom[index_],
             this.bottom[index],
@@ -115,32 +198,132 @@ export class Game {
 
    // Server Only
    private dealCards(): void {
-      let cardIndex = 3;
+      let cardIndex = this.rules.bottomSize;
 
       for (const player of this.players) player.hand = new Hand([]);
-      for (let index = 0; index < 17; index++) {
-         // 17 cards per player in DDZ
+      for (let index = 0; index < this.rules.handSize; index++) {
          for (const player of this.players)
             player.hand.cards.push(this.bottom[cardIndex++]);
       }
 
+      // Only the bottom stays; with two players the rest is set aside
+      this.bottom = this.bottom.slice(0, this.rules.bottomSize);
+
       for (const player of this.players) player.hand.sort();
    }
 
+   isValidBid(bet: number): boolean {
+      if (this.phase !== GamePhase.BIDDING) return false;
+      if (bet === 0) return true;
+
+      if (this.rules.bidding === BiddingMode.ROB) return bet === 1;
+      return this.rules.bids.includes(bet) && bet > this.bet;
+   }
+
+   // Returns true once the landlord is decided, with them as current player.
+   // Everyone passing redeals the cards instead.
    betLandlord(bet: number): boolean | undefined {
+      if (!this.isValidBid(bet)) return undefined;
+
+      const done =
+         this.rules.bidding === BiddingMode.ROB
+            ? this.callOrRob(bet === 1)
+            : this.bidPoints(bet);
+
+      if (done) this.currentIndex = this.landlordIndex!;
+      return done;
+   }
+
+   private bidPoints(bet: number): boolean {
+      this.bids.push({
+         playerIndex: this.currentIndex,
+         kind: bet === 0 ? BidKind.PASS : BidKind.BID,
+         value: bet,
+      });
+
       if (bet > this.bet) {
          this.bet = bet;
          this.landlordIndex = this.currentIndex;
-         if (bet === 3) return true;
+         if (bet === maxBid(this.rules)) return true;
       }
 
       // Move to next player
       this.currentIndex = (this.currentIndex + 1) % this.players.length;
 
+      if (
+         this.landlordIndex === undefined &&
+         this.bids.length >= this.players.length
+      ) {
+         this.redeal();
+         return false;
+      }
+
       // If the next player is landlord, betting ends
       return this.currentIndex === this.landlordIndex;
    }
 
+   // 叫地主/抢地主: the first caller can be robbed once by each player who
+   // did not decline, then gets a last chance to rob back. Each rob doubles
+   private callOrRob(accept: boolean): boolean {
+      const call = this.bids.find((bid) => bid.kind === BidKind.CALL);
+      const kind = accept ? (call ? BidKind.ROB : BidKind.CALL) : BidKind.PASS;
+      this.bids.push({ playerIndex: this.currentIndex, kind, value: 0 });
+
+      if (accept) {
+         this.landlordIndex = this.currentIndex;
+         if (kind === BidKind.CALL) this.bet = 1;
+         else this.robs++;
+      }
+
+      if (!call && !accept) {
+         if (this.bids.length >= this.players.length) {
+            this.redeal();
+            return false;
+         }
+
+         this.currentIndex = (this.currentIndex + 1) % this.players.length;
+         return false;
+      }
+
+      const next = this.robOrder().at(this.robTurnsTaken());
+      if (next === undefined) return true;
+
+      this.currentIndex = next;
+      return false;
+   }
+
+   // Seats allowed to rob after the call, in turn order
+   private robOrder(): number[] {
+      const callAt = this.bids.findIndex((bid) => bid.kind === BidKind.CALL);
+      const caller = this.bids[callAt].playerIndex;
+      const declined = new Set(
+         this.bids.slice(0, callAt).map((bid) => bid.playerIndex)
+      );
+
+      const order: number[] = [];
+      for (let step = 1; step < this.players.length; step++) {
+         const index = (caller + step) % this.players.length;
+         if (!declined.has(index)) order.push(index);
+      }
+
+      const robbed = this.bids
+         .slice(callAt + 1, callAt + 1 + order.length)
+         .some((bid) => bid.kind === BidKind.ROB);
+      if (robbed) order.push(caller);
+
+      return order;
+   }
+
+   private robTurnsTaken(): number {
+      const callAt = this.bids.findIndex((bid) => bid.kind === BidKind.CALL);
+      return this.bids.length - callAt - 1;
+   }
+
+   private redeal(): void {
+      this.redeals++;
+      this.deal();
+   }
+
    becomeLandlord(bottom = this.bottom): void {
       if (this.phase !== GamePhase.BIDDING) return;
 
@@ -166,22 +349,20 @@ export class Game {
          return player.hand.cards.length === 0;
       }
 
-      if (cards.length > 0) {
-         const playType = Game.validatePlayType(cards);
-         if (!playType) return undefined;
-
-         const play = {
-            cards,
-            type: playType.type,
-            value: playType.value,
-            playerIndex: this.currentIndex,
-         };
+      if (cards.length === 0 && !this.canPass()) return undefined;
 
-         if (this.lastPlay && !Game.canBeat(play, this.lastPlay))
-            return undefined;
+      if (cards.length > 0) {
+         // Play the hand's own copies; cards it does not hold are refused
+         const owned = player.hand.match(cards);
+         const play = owned && this.findPlay(owned);
+         if (!play) return undefined;
 
-         player.hand.remove(cards, check);
+         player.hand.remove(owned, check);
          this.lastPlay = play;
+         this.plays[this.currentIndex]++;
+
+         if (play.type === PlayType.BOMB || play.type === PlayType.ROCKET)
+            this.bombs[this.currentIndex]++;
 
          if (player.hand.cards.length === 0) {
             this.phase = GamePhase.FINISHED;
@@ -198,61 +379,165 @@ export class Game {
       return false;
    }
 
+   // Each rob and each bomb or rocket played doubles the stakes
+   get multiplier(): number {
+      return 2 ** (this.robs + this.bombCount);
+   }
+
+   get bombCount(): number {
+      let count = 0;
+      for (const bombs of this.bombs) count += bombs;
+      return count;
+   }
+
+   // Points won or lost by each seat, once the game has finished
+   settle(): Settlement | undefined {
+      const landlord = this.landlord;
+      if (this.phase !== GamePhase.FINISHED || !landlord) return undefined;
+
+      const landlordIndex = this.landlordIndex!;
+      const landlordWon = landlord.hand.cards.length === 0;
+      const farmersPlayed = this.plays.filter(
+         (count, index) => index !== landlordIndex && count > 0
+      ).length;
+
+      // Spring: farmers never played. Anti-spring: landlord only led once
+      const spring = landlordWon && farmersPlayed === 0;
+      const antiSpring = !landlordWon && this.plays[landlordIndex] === 1;
+      const multiplier = this.multiplier * (spring || antiSpring ? 2 : 1);
+
+      const base = Math.max(this.bet, 1);
+      const stake = (landlordWon ? 1 : -1) * base * multiplier;
+      const scores = this.players.map((_, index) =>
+         index === landlordIndex ? stake * (this.players.length - 1) : -stake
+      );
+
+      return {
+         landlordWon,
+         base,
+         bombs: this.bombCount,
+         spring,
+         antiSpring,
+         multiplier,
+         scores,
+      };
+   }
+
+   // The play the current player would make with these cards, if any
+   findPlay(cards: Card[], lastPlay = this.lastPlay): Play | undefined {
+      // Ambiguous hands are read whichever way beats the last play
+      return Game.classifyPlay(cards, this.rules)
+         .map((shape) => ({
+            cards,
+            ...shape,
+            playerIndex: this.currentIndex,
+         }))
+         .find(
+            (candidate) =>
+               !lastPlay || Game.canBeat(candidate, lastPlay, this.rules)
+         );
+   }
+
+   // Every play the hand can make against lastPlay, weakest first
+   legalMoves(hand: Hand, lastPlay = this.lastPlay): Play[] {
+      const moves = new Map<string, Play>();
+
+      for (const cards of candidatePlays(hand.cards, this.rules)) {
+         const play = this.findPlay(cards, lastPlay);
+         if (!play) continue;
+
+         const key = `${play.type}:${cards.map((card) => Hand.getCardValue(card)).join(",")}`;
+         if (!moves.has(key)) moves.set(key, play);
+      }
+
+      const strength = (play: Play) =>
+         Game.bombStrength(play, this.rules) ?? -Infinity;
+
+      return [...moves.values()].toSorted(
+         (a, b) =>
+            strength(a) - strength(b) ||
+            a.value - b.value ||
+            a.cards.length - b.cards.length
+      );
+   }
+
+   // Passing is only allowed when following someone else's play
+   canPass(): boolean {
+      return this.phase === GamePhase.PLAYING && this.lastPlay !== undefined;
+   }
+
    static validatePlayType(
-      cards: Card[]
-   ): { type: PlayType; value: number } | undefined {
-      if (cards.length === 0) return undefined;
+      cards: Card[],
+      rules: GameRules = DEFAULT_RULES
+   ): PlayShape | undefined {
+      return Game.classifyPlay(cards, rules)[0];
+   }
+
+   // Every valid reading of the cards, preferred reading first
+   static classifyPlay(
+      cards: Card[],
+      rules: GameRules = DEFAULT_RULES
+   ): PlayShape[] {
+      if (cards.length === 0) return [];
 
       const sorted = cards.toSorted(
          (a, b) => Hand.getCardValue(a) - Hand.getCardValue(b)
       );
 
-      // Rocket: Both Jokers
+      // Rocket: Every Joker in play, both colors
       if (
-         sorted.length === 2 &&
-         sorted[0].type === "Joker" &&
-         sorted[1].type === "Joker"
-      ) {
-         return {
-            type: PlayType.ROCKET,
-            value: 1000,
-         };
-      }
+         sorted.length === 2 * rules.decks &&
+         sorted.every((card) => card.type === "Joker") &&
+         new Set(sorted.map((card) => Hand.getCardValue(card))).size === 2
+      )
+         return [{ type: PlayType.ROCKET, value: 1000 }];
 
       const rankCounts = Game.countRanks(sorted);
       const counts = Object.values(rankCounts);
       const uniqueRanks = Object.keys(rankCounts);
 
-      // Bomb: 4 of a kind
-      if (sorted.length === 4 && counts.length === 1 && counts[0] === 4) {
-         return {
-            type: PlayType.BOMB,
-            value: 100 + Hand.getCardValue(sorted[0]),
-         };
+      // Bomb: 4 or more of a kind (more than 4 only with two decks)
+      if (
+         sorted.length >= 4 &&
+         counts.length === 1 &&
+         sorted[0].type === "Playing"
+      ) {
+         return [
+            {
+               type: PlayType.BOMB,
+               value: 100 + Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
       // Solo
       if (sorted.length === 1) {
-         return {
-            type: PlayType.SOLO,
-            value: Hand.getCardValue(sorted[0]),
-         };
+         return [
+            {
+               type: PlayType.SOLO,
+               value: Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
       // Pair
       if (sorted.length === 2 && counts.length === 1 && counts[0] === 2) {
-         return {
-            type: PlayType.PAIR,
-            value: Hand.getCardValue(sorted[0]),
-         };
+         return [
+            {
+               type: PlayType.PAIR,
+               value: Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
       // Triple
       if (sorted.length === 3 && counts.length === 1 && counts[0] === 3) {
-         return {
-            type: PlayType.TRIPLE,
-            value: Hand.getCardValue(sorted[0]),
-         };
+         return [
+            {
+               type: PlayType.TRIPLE,
+               value: Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
       // Triple with single
@@ -263,16 +548,19 @@ export class Game {
          counts.includes(1)
       ) {
          const tripleRank = uniqueRanks.find((r) => rankCounts[r] === 3)!;
-         return {
-            type: PlayType.TRIPLE_WITH_SINGLE,
-            value: Hand.getCardValue(
-               sorted.find(
-                  (c) =>
-                     (c.type === "Playing" && c.rank === Number(tripleRank)) ||
-                     c.type === "Joker"
-               )!
-            ),
-         };
+         return [
+            {
+               type: PlayType.TRIPLE_WITH_SINGLE,
+               value: Hand.getCardValue(
+                  sorted.find(
+                     (c) =>
+                        (c.type === "Playing" &&
+                           c.rank === Number(tripleRank)) ||
+                        c.type === "Joker"
+                  )!
+               ),
+            },
+         ];
       }
 
       // Triple with pair
@@ -283,51 +571,153 @@ export class Game {
          counts.includes(2)
       ) {
          const tripleRank = uniqueRanks.find((r) => rankCounts[r] === 3)!;
-         return {
-            type: PlayType.TRIPLE_WITH_PAIR,
-            value: Hand.getCardValue(
-               sorted.find(
-                  (c) =>
-                     (c.type === "Playing" && c.rank === Number(tripleRank)) ||
-                     c.type === "Joker"
-               )!
-            ),
-         };
+         return [
+            {
+               type: PlayType.TRIPLE_WITH_PAIR,
+               value: Hand.getCardValue(
+                  sorted.find(
+                     (c) =>
+                        (c.type === "Playing" &&
+                           c.rank === Number(tripleRank)) ||
+                        c.type === "Joker"
+                  )!
+               ),
+            },
+         ];
       }
 
       // Straight: 5+ consecutive cards
-      if (sorted.length >= 5 && Game.isStraight(sorted, 1)) {
-         return {
-            type: PlayType.STRAIGHT,
-            value: Hand.getCardValue(sorted[0]),
-         };
+      if (Game.isStraight(sorted, 1, rules)) {
+         return [
+            {
+               type: PlayType.STRAIGHT,
+               value: Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
       // Pair straight: 3+ consecutive pairs
-      if (
-         sorted.length >= 6 &&
-         sorted.length % 2 === 0 &&
-         Game.isStraight(sorted, 2)
-      ) {
-         return {
-            type: PlayType.PAIR_STRAIGHT,
-            value: Hand.getCardValue(sorted[0]),
-         };
+      if (sorted.length % 2 === 0 && Game.isStraight(sorted, 2, rules)) {
+         return [
+            {
+               type: PlayType.PAIR_STRAIGHT,
+               value: Hand.getCardValue(sorted[0]),
+            },
+         ];
       }
 
+      // The remaining shapes can overlap (e.g. 333444555666 is a triple
+      // straight or an airplane carrying three singles), so collect them all
+      const shapes: PlayShape[] = [];
+
       // Triple straight (airplane): 2+ consecutive triples
-      if (
-         sorted.length >= 6 &&
-         sorted.length % 3 === 0 &&
-         Game.isStraight(sorted, 3)
-      ) {
-         return {
+      if (sorted.length % 3 === 0 && Game.isStraight(sorted, 3, rules)) {
+         shapes.push({
             type: PlayType.TRIPLE_STRAIGHT,
             value: Hand.getCardValue(sorted[0]),
-         };
+         });
+      }
+
+      shapes.push(
+         // Airplane with kickers: 2+ consecutive triples, one kicker per triple
+         ...Game.findAirplanes(sorted, 1, rules),
+         ...Game.findAirplanes(sorted, 2, rules),
+         // Four with kickers: four of a kind carrying two singles or two pairs
+         ...Game.findQuads(sorted, 1),
+         ...Game.findQuads(sorted, 2)
+      );
+
+      return shapes;
+   }
+
+   // Readings are ordered highest core first so a lead is as strong as possible
+   private static findAirplanes(
+      sorted: Card[],
+      kickerSize: 1 | 2,
+      rules: GameRules
+   ): PlayShape[] {
+      const numberTriples = sorted.length / (3 + kickerSize);
+      if (!Number.isInteger(numberTriples) || numberTriples < 2) return [];
+
+      const groups = Game.groupByValue(sorted);
+      const shapes: PlayShape[] = [];
+
+      for (let start = 0; start + numberTriples <= groups.length; start++) {
+         const coreGroups = groups.slice(start, start + numberTriples);
+         if (coreGroups.some((group) => group.length < 3)) continue;
+
+         // A fourth card of a core rank may still be used as a kicker
+         const core = coreGroups.flatMap((group) => group.slice(0, 3));
+         if (!Game.isStraight(core, 3, rules)) continue;
+
+         const kickers = sorted.filter((card) => !core.includes(card));
+         if (!Game.isValidKickers(kickers, numberTriples, kickerSize)) continue;
+
+         shapes.push({
+            type:
+               kickerSize === 1
+                  ? PlayType.AIRPLANE_WITH_SINGLES
+                  : PlayType.AIRPLANE_WITH_PAIRS,
+            value: Hand.getCardValue(core[0]),
+         });
+      }
+
+      return shapes.toSorted((a, b) => b.value - a.value);
+   }
+
+   // Four of a kind carrying two singles or two pairs (not a bomb)
+   private static findQuads(sorted: Card[], kickerSize: 1 | 2): PlayShape[] {
+      if (sorted.length !== 4 + 2 * kickerSize) return [];
+
+      const shapes: PlayShape[] = [];
+
+      for (const group of Game.groupByValue(sorted)) {
+         if (group.length !== 4) continue;
+
+         const kickers = sorted.filter((card) => !group.includes(card));
+         if (!Game.isValidKickers(kickers, 2, kickerSize)) continue;
+
+         shapes.push({
+            type:
+               kickerSize === 1
+                  ? PlayType.QUAD_WITH_SINGLES
+                  : PlayType.QUAD_WITH_PAIRS,
+            value: Hand.getCardValue(group[0]),
+         });
       }
 
-      return undefined;
+      return shapes.toSorted((a, b) => b.value - a.value);
+   }
+
+   private static isValidKickers(
+      kickers: Card[],
+      count: number,
+      kickerSize: 1 | 2
+   ): boolean {
+      if (kickers.length !== count * kickerSize) return false;
+
+      // Singles may be any cards except both jokers (that would be a rocket)
+      if (kickerSize === 1)
+         return kickers.filter((card) => card.type === "Joker").length < 2;
+
+      // Pairs must be real pairs; a four of a kind counts as two pairs
+      for (const group of Game.groupByValue(kickers)) {
+         if (group[0].type !== "Playing" || group.length % 2 !== 0)
+            return false;
+      }
+
+      return true;
+   }
+
+   private static groupByValue(sorted: Card[]): Card[][] {
+      const groups: Card[][] = [];
+      for (const card of sorted) {
+         const last = groups.at(-1);
+         if (last && Hand.getCardValue(last[0]) === Hand.getCardValue(card))
+            last.push(card);
+         else groups.push([card]);
+      }
+      return groups;
    }
 
    private static countRanks(cards: Card[]): Record<string, number> {
@@ -344,7 +734,11 @@ export class Game {
       return counts;
    }
 
-   private static isStraight(sorted: Card[], groupSize: number): boolean {
+   private static isStraight(
+      sorted: Card[],
+      groupSize: number,
+      rules: GameRules
+   ): boolean {
       if (sorted.length % groupSize !== 0) return false;
 
       for (const card of sorted) if (card.type !== "Playing") return false;
@@ -353,6 +747,20 @@ export class Game {
       const playingCards = sorted as Extract<Card, { type: "Playing" }>[];
 
       const numberGroups = playingCards.length / groupSize;
+      const minGroups =
+         groupSize === 1
+            ? rules.minStraightLength
+            : groupSize === 2
+              ? rules.minPairStraightLength
+              : rules.minTripleStraightLength;
+      if (numberGroups < minGroups) return false;
+
+      const cap = Hand.getSequenceValue({
+         type: "Playing",
+         suit: "s",
+         rank: rules.straightCap,
+      });
+
       for (let index = 0; index < numberGroups; index++) {
          const groupCards = playingCards.slice(
             index * groupSize,
@@ -364,38 +772,52 @@ export class Game {
          for (const card of groupCards)
             if (card.rank !== firstCard.rank) return false;
 
+         const actualValue = Hand.getSequenceValue(firstCard);
+         if (actualValue > cap) return false;
+
          if (index > 0) {
             const previousCard = playingCards[(index - 1) * groupSize];
-            const expectedValue = Hand.getCardValue(previousCard) + 1;
-            const actualValue = Hand.getCardValue(firstCard);
+            const expectedValue = Hand.getSequenceValue(previousCard) + 1;
 
-            if (actualValue !== expectedValue || actualValue >= 13)
-               return false;
+            if (actualValue !== expectedValue) return false;
          }
       }
 
-      return numberGroups >= (groupSize === 1 ? 5 : groupSize === 2 ? 3 : 2);
+      return true;
    }
 
-   static canBeat(play: Play, lastPlay: Play): boolean {
-      // Rocket beats everything
-      if (play.type === PlayType.ROCKET) return true;
-
-      // Bomb beats everything except Rocket and higher Bombs
-      if (play.type === PlayType.BOMB) {
-         if (lastPlay.type === PlayType.ROCKET) return false;
-         if (lastPlay.type === PlayType.BOMB)
-            return play.value > lastPlay.value;
-
-         return true;
+   static canBeat(
+      play: Play,
+      lastPlay: Play,
+      rules: GameRules = DEFAULT_RULES
+   ): boolean {
+      // Bombs and Rockets beat every normal play, and each other by strength
+      const strength = Game.bombStrength(play, rules);
+      if (strength !== undefined) {
+         const lastStrength = Game.bombStrength(lastPlay, rules);
+         return lastStrength === undefined || strength > lastStrength;
       }
 
-      // Normal plays must match type and have higher value
+      // Normal plays must match type and have higher value. Matching length
+      // keeps airplanes to the same number of triples and kickers
       if (play.type !== lastPlay.type) return false;
       if (play.cards.length !== lastPlay.cards.length) return false;
 
       return play.value > lastPlay.value;
    }
+
+   private static bombStrength(
+      play: Play,
+      rules: GameRules
+   ): number | undefined {
+      if (play.type === PlayType.ROCKET && rules.rocketHighest) return Infinity;
+      if (play.type !== PlayType.ROCKET && play.type !== PlayType.BOMB)
+         return undefined;
+
+      // Otherwise a Rocket's value of 1000 places it above any 4-card bomb
+      const length = play.type === PlayType.ROCKET ? 4 : play.cards.length;
+      return (rules.bombsByLength ? length * 10_000 : 0) + play.value;
+   }
 }
 
 export enum GamePhase {
@@ -404,6 +826,19 @@ export enum GamePhase {
    FINISHED = "finished",
 }
 
+export enum BidKind {
+   BID = "bid",
+   CALL = "call",
+   ROB = "rob",
+   PASS = "pass",
+}
+
+export interface BidRecord {
+   playerIndex: number;
+   kind: BidKind;
+   value: number;
+}
+
 export enum PlayType {
    SOLO = "solo",
    PAIR = "pair",
@@ -421,10 +856,13 @@ export enum PlayType {
    ROCKET = "rocket",
 }
 
-export interface Play {
-   cards: Card[];
+export interface PlayShape {
    type: PlayType;
    value: number;
+}
+
+export interface Play extends PlayShape {
+   cards: Card[];
    playerIndex: number;
 }
 
@@ -457,6 +895,36 @@ export class Hand {
       }
    }
 
+   // Consecutive order used for straights: 3 ... K, A, 2, jokers
+   static getSequenceValue(card: Card): number {
+      switch (card.type) {
+         case "Joker": {
+            return card.color === "BLACK" ? 16 : 17;
+         }
+         case "Playing": {
+            return card.rank === 2 ? 15 : card.rank === 1 ? 14 : card.rank;
+         }
+         case "Flipped": {
+            return 18;
+         }
+      }
+   }
+
+   // The hand's own copies of these cards, unless some are not held
+   match(cards: Card[]): Card[] | undefined {
+      const available = [...this.cards];
+      const matched: Card[] = [];
+
+      for (const card of cards) {
+         const index = available.findIndex((c) => Hand.cardsEqual(c, card));
+         if (index === -1) return undefined;
+
+         matched.push(...available.splice(index, 1));
+      }
+
+      return matched;
+   }
+
    remove(cards: Card[], check = true): void {
       for (const card of cards) {
          const index = this.cards.findIndex((c) => Hand.cardsEqual(c, card));
@@ -0,0 +1,25 @@
+import { douDizhu } from "./ddz";
+import type { GameDefinition, GameState } from "./definition";
+
+const definitions = new Map<string, GameDefinition>();
+
+export const DEFAULT_GAME_ID = douDizhu.id;
+
+export function registerGame<G extends GameState, S, O>(
+   definition: GameDefinition<G, S, O>
+): void {
+   if (definitions.has(definition.id))
+      throw new Error(`Game "${definition.id}" is already registered`);
+
+   definitions.set(definition.id, definition);
+}
+
+export function getGameDefinition(id: string): GameDefinition | undefined {
+   return definitions.get(id);
+}
+
+export function listGameDefinitions(): GameDefinition[] {
+   return [...definitions.values()];
+}
+
+registerGame(douDizhu);
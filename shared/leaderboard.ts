@@ -0,0 +1,97 @@
+import { clamp } from "./rules";
+
+export enum LeaderboardWindow {
+   DAILY = "daily",
+   WEEKLY = "weekly",
+   ALL_TIME = "all",
+}
+
+// How far back each window reaches, in milliseconds
+export const WINDOW_LENGTH: Record<LeaderboardWindow, number> = {
+   [LeaderboardWindow.DAILY]: 24 * 60 * 60 * 1000,
+   [LeaderboardWindow.WEEKLY]: 7 * 24 * 60 * 60 * 1000,
+   [LeaderboardWindow.ALL_TIME]: Infinity,
+};
+
+// One player's part in a recorded game; games with bots are not recorded
+export interface RecordedSeat {
+   id: string;
+   name: string;
+   score: number;
+   won: boolean;
+}
+
+// A finished game, kept for rankings
+export interface GameRecord {
+   id: string;
+   gameId: string;
+   variant: string;
+   finishedAt: number;
+   seats: RecordedSeat[];
+}
+
+// One player's all-time results in one variant, folded in game by game so
+// the all-time board never depends on how many records are kept
+export interface LeaderboardTotal {
+   id: string;
+   name: string;
+   gameId: string;
+   variant: string;
+   games: number;
+   wins: number;
+   points: number;
+}
+
+export interface LeaderboardQuery {
+   window: LeaderboardWindow;
+   gameId: string | undefined;
+   // Undefined ranks every variant together
+   variant: string | undefined;
+   // Starting from 1
+   page: number;
+   pageSize: number;
+}
+
+export interface LeaderboardEntry {
+   rank: number;
+   id: string;
+   name: string;
+   games: number;
+   wins: number;
+   points: number;
+   rating: number;
+}
+
+export interface LeaderboardPage {
+   query: LeaderboardQuery;
+   // Players ranked in total, across every page
+   total: number;
+   entries: LeaderboardEntry[];
+   // Variants with recorded games, for filtering
+   variants: string[];
+}
+
+const MAX_PAGE_SIZE = 100;
+
+// Sanitize query parameters, falling back to defaults per field
+export function resolveLeaderboardQuery(
+   data: Record<string, unknown>
+): LeaderboardQuery {
+   const window = Object.values(LeaderboardWindow).includes(
+      data.window as LeaderboardWindow
+   )
+      ? (data.window as LeaderboardWindow)
+      : LeaderboardWindow.ALL_TIME;
+
+   return {
+      window,
+      gameId: optionalString(data.game),
+      variant: optionalString(data.variant),
+      page: clamp(Number(data.page), 1, Number.MAX_SAFE_INTEGER, 1),
+      pageSize: clamp(Number(data.pageSize), 1, MAX_PAGE_SIZE, 20),
+   };
+}
+
+function optionalString(value: unknown): string | undefined {
+   return typeof value === "string" && value.length > 0 ? value : undefined;
+}
@@ -0,0 +1,142 @@
+import type { Card } from "./card";
+import { Hand } from "./game";
+import type { GameRules } from "./rules";
+
+// Every card combination a hand could play, one per rank pattern. Shapes are
+// only sketched here; Game.classifyPlay decides which ones are real plays
+export function candidatePlays(cards: Card[], rules: GameRules): Card[][] {
+   const groups = groupByValue(cards);
+   const candidates: Card[][] = [];
+
+   // Solos, pairs, triples and bombs
+   for (const group of groups) {
+      for (let size = 1; size <= group.length; size++)
+         candidates.push(group.slice(0, size));
+   }
+
+   const jokers = cards.filter((card) => card.type === "Joker");
+   if (jokers.length > 1) candidates.push(jokers);
+
+   // Straights, pair straights and triple straights
+   for (const width of [1, 2, 3]) {
+      for (const run of runs(groups, width, rules))
+         candidates.push(run.flatMap((group) => group.slice(0, width)));
+   }
+
+   // Triples and airplanes with kickers
+   const cores = [
+      ...groups.filter((group) => group.length >= 3).map((group) => [group]),
+      ...runs(groups, 3, rules).filter((run) => run.length > 1),
+   ];
+   for (const core of cores) {
+      const coreCards = core.flatMap((group) => group.slice(0, 3));
+      for (const kickerSize of [1, 2]) {
+         for (const kickers of kickerCombinations(
+            withoutCards(groups, coreCards),
+            core.length,
+            kickerSize
+         ))
+            candidates.push([...coreCards, ...kickers]);
+      }
+   }
+
+   // Four of a kind with two kickers
+   for (const group of groups) {
+      if (group.length < 4) continue;
+
+      const quad = group.slice(0, 4);
+      for (const kickerSize of [1, 2]) {
+         for (const kickers of kickerCombinations(
+            withoutCards(groups, quad),
+            2,
+            kickerSize
+         ))
+            candidates.push([...quad, ...kickers]);
+      }
+   }
+
+   return candidates;
+}
+
+function groupByValue(cards: Card[]): Card[][] {
+   const groups = new Map<number, Card[]>();
+   for (const card of cards) {
+      const value = Hand.getCardValue(card);
+      groups.set(value, [...(groups.get(value) ?? []), card]);
+   }
+
+   return [...groups.entries()]
+      .toSorted(([a], [b]) => a - b)
+      .map(([, group]) => group);
+}
+
+// Consecutive groups holding at least `width` cards, of every allowed length
+function runs(groups: Card[][], width: number, rules: GameRules): Card[][][] {
+   const minLength =
+      width === 1
+         ? rules.minStraightLength
+         : width === 2
+           ? rules.minPairStraightLength
+           : rules.minTripleStraightLength;
+   const cap = Hand.getSequenceValue({
+      type: "Playing",
+      suit: "s",
+      rank: rules.straightCap,
+   });
+
+   const eligible = groups.filter(
+      (group) =>
+         group.length >= width &&
+         group[0].type === "Playing" &&
+         Hand.getSequenceValue(group[0]) <= cap
+   );
+
+   const result: Card[][][] = [];
+   for (let start = 0; start < eligible.length; start++) {
+      let end = start + 1;
+      while (
+         end < eligible.length &&
+         Hand.getSequenceValue(eligible[end][0]) ===
+            Hand.getSequenceValue(eligible[end - 1][0]) + 1
+      ) {
+         end++;
+         if (end - start >= minLength) result.push(eligible.slice(start, end));
+      }
+   }
+
+   return result;
+}
+
+function withoutCards(groups: Card[][], cards: Card[]): Card[][] {
+   return groups
+      .map((group) => group.filter((card) => !cards.includes(card)))
+      .filter((group) => group.length > 0);
+}
+
+// Ways to pick `count` kickers of `size` cards each, several from one rank
+function kickerCombinations(
+   groups: Card[][],
+   count: number,
+   size: number,
+   start = 0
+): Card[][] {
+   if (count === 0) return [[]];
+
+   const combinations: Card[][] = [];
+   for (let index = start; index < groups.length; index++) {
+      const available = Math.floor(groups[index].length / size);
+
+      for (let taken = 1; taken <= Math.min(available, count); taken++) {
+         const picked = groups[index].slice(0, taken * size);
+         for (const rest of kickerCombinations(
+            groups,
+            count - taken,
+            size,
+            index + 1
+         ))
+            combinations.push([...picked, ...rest]);
+      }
+   }
+
+   return combinations;
+}
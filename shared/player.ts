@@ -1,5 +1,7 @@
 import type { Card } from "./card";
 import { Hand } from "./game";
+import type { Viewer } from "./visibility";
+import { canSeeHand } from "./visibility";
 
 export enum PlayerStatus {
    NOT_READY = "not_ready",
@@ -7,12 +9,19 @@ export enum PlayerStatus {
    DISCONNECTED = "disconnected",
 }
 
+export enum BotLevel {
+   EASY = "easy",
+   NORMAL = "normal",
+   HARD = "hard",
+}
+
 export interface SerializedPlayer {
    id: string;
    name: string;
    hand: Card[];
    status: PlayerStatus;
    gameIndex?: number;
+   bot?: BotLevel;
 }
 
 export class Player {
@@ -21,29 +30,40 @@ export class Player {
    hand: Hand;
    status: PlayerStatus;
    index: number | undefined;
+   // Difficulty of a server-controlled seat; undefined for humans
+   bot: BotLevel | undefined;
 
-   constructor(id: string, name?: string) {
+   constructor(id: string, name?: string, bot?: BotLevel) {
       this.id = id;
       this.name = name || id;
       this.hand = new Hand([]);
       this.status = PlayerStatus.NOT_READY;
       this.index = undefined;
+      this.bot = bot;
    }
 
-   serialize(hideHand = false): SerializedPlayer {
+   serialize(viewer: Viewer): SerializedPlayer {
       return {
          id: this.id,
          name: this.name,
-         hand: hideHand
-            ? this.hand.cards.map(() => ({ type: "Flipped" }))
-            : this.hand.cards,
+         hand: canSeeHand(viewer, this.index)
+            ? this.hand.cards
+            : this.hand.cards.map(() => ({ type: "Flipped" })),
          status: this.status,
          gameIndex: this.index,
+         bot: this.bot,
       };
    }
 
+   // What a snapshot for this viewer would wrongly reveal, if anything
+   static findLeak(data: SerializedPlayer, viewer: Viewer): string | undefined {
+      if (canSeeHand(viewer, data.gameIndex)) return undefined;
+      if (data.hand.some((card) => card.type !== "Flipped"))
+         return `${data.name}'s hand`;
+   }
+
    static deserialize(data: SerializedPlayer): Player {
-      const player = new Player(data.id, data.name);
+      const player = new Player(data.id, data.name, data.bot);
       player.hand = new Hand(data.hand);
       player.status = data.status;
       player.index = data.gameIndex;
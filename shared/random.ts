@@ -0,0 +1,140 @@
+// Returns floats in [0, 1), like Math.random
+export type Random = () => number;
+
+// Deterministic generator: the same seed always shuffles the same way.
+// HMAC-SHA256 keyed by the whole seed and run in counter mode, so seeing one
+// hand gives no way to work out the seed or the rest of the deal
+export function createRandom(seed: string): Random {
+   const key = new TextEncoder().encode(seed);
+   let counter = 0;
+   let block: Uint32Array = new Uint32Array(0);
+   let offset = 0;
+
+   return () => {
+      if (offset >= block.length) {
+         block = hmacSha256(key, counterBytes(counter++));
+         offset = 0;
+      }
+
+      // Two words make 53 bits, as many as a double holds exactly
+      const high = block[offset++] >>> 5;
+      const low = block[offset++] >>> 6;
+      return (high * 67_108_864 + low) / 9_007_199_254_740_992;
+   };
+}
+
+export function randomSeed(): string {
+   const bytes = crypto.getRandomValues(new Uint8Array(16));
+   return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// MARK: SHA-256
+// Written out here because Web Crypto only hashes asynchronously, and the
+// deal has to stay synchronous
+
+const K = new Uint32Array([
+   0x42_8a_2f_98, 0x71_37_44_91, 0xb5_c0_fb_cf, 0xe9_b5_db_a5, 0x39_56_c2_5b,
+   0x59_f1_11_f1, 0x92_3f_82_a4, 0xab_1c_5e_d5, 0xd8_07_aa_98, 0x12_83_5b_01,
+   0x24_31_85_be, 0x55_0c_7d_c3, 0x72_be_5d_74, 0x80_de_b1_fe, 0x9b_dc_06_a7,
+   0xc1_9b_f1_74, 0xe4_9b_69_c1, 0xef_be_47_86, 0x0f_c1_9d_c6, 0x24_0c_a1_cc,
+   0x2d_e9_2c_6f, 0x4a_74_84_aa, 0x5c_b0_a9_dc, 0x76_f9_88_da, 0x98_3e_51_52,
+   0xa8_31_c6_6d, 0xb0_03_27_c8, 0xbf_59_7f_c7, 0xc6_e0_0b_f3, 0xd5_a7_91_47,
+   0x06_ca_63_51, 0x14_29_29_67, 0x27_b7_0a_85, 0x2e_1b_21_38, 0x4d_2c_6d_fc,
+   0x53_38_0d_13, 0x65_0a_73_54, 0x76_6a_0a_bb, 0x81_c2_c9_2e, 0x92_72_2c_85,
+   0xa2_bf_e8_a1, 0xa8_1a_66_4b, 0xc2_4b_8b_70, 0xc7_6c_51_a3, 0xd1_92_e8_19,
+   0xd6_99_06_24, 0xf4_0e_35_85, 0x10_6a_a0_70, 0x19_a4_c1_16, 0x1e_37_6c_08,
+   0x27_48_77_4c, 0x34_b0_bc_b5, 0x39_1c_0c_b3, 0x4e_d8_aa_4a, 0x5b_9c_ca_4f,
+   0x68_2e_6f_f3, 0x74_8f_82_ee, 0x78_a5_63_6f, 0x84_c8_78_14, 0x8c_c7_02_08,
+   0x90_be_ff_fa, 0xa4_50_6c_eb, 0xbe_f9_a3_f7, 0xc6_71_78_f2,
+]);
+
+const INITIAL_HASH = [
+   0x6a_09_e6_67, 0xbb_67_ae_85, 0x3c_6e_f3_72, 0xa5_4f_f5_3a, 0x51_0e_52_7f,
+   0x9b_05_68_8c, 0x1f_83_d9_ab, 0x5b_e0_cd_19,
+];
+
+const BLOCK_SIZE = 64;
+
+function hmacSha256(key: Uint8Array, message: Uint8Array): Uint32Array {
+   const padded = new Uint8Array(BLOCK_SIZE);
+   padded.set(key.length > BLOCK_SIZE ? toBytes(sha256(key)) : key);
+
+   const inner = new Uint8Array(BLOCK_SIZE + message.length);
+   const outer = new Uint8Array(BLOCK_SIZE + 32);
+   for (const [index, byte] of padded.entries()) {
+      inner[index] = byte ^ 0x36;
+      outer[index] = byte ^ 0x5c;
+   }
+
+   inner.set(message, BLOCK_SIZE);
+   outer.set(toBytes(sha256(inner)), BLOCK_SIZE);
+   return sha256(outer);
+}
+
+function sha256(data: Uint8Array): Uint32Array {
+   // Pad with a 1 bit, zeros, then the length in bits as 64 bits
+   const length = Math.ceil((data.length + 9) / BLOCK_SIZE) * BLOCK_SIZE;
+   const bytes = new Uint8Array(length);
+   bytes.set(data);
+   bytes[data.length] = 0x80;
+
+   const view = new DataView(bytes.buffer);
+   view.setUint32(length - 8, Math.floor(data.length / 0x20_00_00_00));
+   view.setUint32(length - 4, (data.length * 8) >>> 0);
+
+   const hash = new Uint32Array(INITIAL_HASH);
+   const w = new Uint32Array(64);
+   for (let start = 0; start < length; start += BLOCK_SIZE) {
+      for (let index = 0; index < 16; index++)
+         w[index] = view.getUint32(start + index * 4);
+      for (let index = 16; index < 64; index++) {
+         const s0 =
+            rotate(w[index - 15], 7) ^
+            rotate(w[index - 15], 18) ^
+            (w[index - 15] >>> 3);
+         const s1 =
+            rotate(w[index - 2], 17) ^
+            rotate(w[index - 2], 19) ^
+            (w[index - 2] >>> 10);
+         w[index] = w[index - 16] + s0 + w[index - 7] + s1;
+      }
+
+      // The working variables a to h, with fifth standing for e
+      const state = new Uint32Array(hash);
+      for (let index = 0; index < 64; index++) {
+         const [a, b, c] = state;
+         const [fifth, f, g, h] = state.subarray(4);
+         const s1 = rotate(fifth, 6) ^ rotate(fifth, 11) ^ rotate(fifth, 25);
+         const choice = (fifth & f) ^ (~fifth & g);
+         const t1 = h + s1 + choice + K[index] + w[index];
+         const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+         const majority = (a & b) ^ (a & c) ^ (b & c);
+
+         // Shift each variable down one place, then update a and e
+         state.copyWithin(1, 0, 7);
+         state[4] += t1;
+         state[0] = t1 + s0 + majority;
+      }
+
+      for (const [index, value] of state.entries()) hash[index] += value;
+   }
+
+   return hash;
+}
+
+function rotate(value: number, bits: number): number {
+   return (value >>> bits) | (value << (32 - bits));
+}
+
+function toBytes(words: Uint32Array): Uint8Array {
+   const bytes = new Uint8Array(words.length * 4);
+   const view = new DataView(bytes.buffer);
+   for (const [index, word] of words.entries()) view.setUint32(index * 4, word);
+   return bytes;
+}
+
+function counterBytes(counter: number): Uint8Array {
+   const bytes = new Uint8Array(8);
+   new DataView(bytes.buffer).setUint32(4, counter);
+   return bytes;
+}
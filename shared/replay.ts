@@ -0,0 +1,103 @@
+import type { GameAction, GameResult, GameState } from "./definition";
+import { getGameDefinition } from "./games";
+import { Player } from "./player";
+
+export interface GameEvent {
+   playerIndex: number;
+   action: GameAction;
+}
+
+export interface ReplaySeat {
+   id: string;
+   name: string;
+}
+
+export interface SerializedReplay {
+   id: string;
+   gameId: string;
+   options: unknown;
+   seed: string;
+   seats: ReplaySeat[];
+   events: GameEvent[];
+   result: GameResult | undefined;
+   startedAt: number;
+}
+
+// Ordered log of one game: replaying its events over the same seeded deal
+// rebuilds the game exactly
+export class Replay {
+   id: string;
+   gameId: string;
+   options: unknown;
+   seed: string;
+   seats: ReplaySeat[];
+   events: GameEvent[];
+   result: GameResult | undefined;
+   startedAt: number;
+
+   constructor(
+      id: string,
+      gameId: string,
+      options: unknown,
+      seed: string,
+      seats: ReplaySeat[]
+   ) {
+      this.id = id;
+      this.gameId = gameId;
+      this.options = options;
+      this.seed = seed;
+      this.seats = seats;
+      this.events = [];
+      this.result = undefined;
+      this.startedAt = Date.now();
+   }
+
+   serialize(): SerializedReplay {
+      return {
+         id: this.id,
+         gameId: this.gameId,
+         options: this.options,
+         seed: this.seed,
+         seats: this.seats,
+         events: this.events,
+         result: this.result,
+         startedAt: this.startedAt,
+      };
+   }
+
+   static deserialize(data: SerializedReplay): Replay {
+      const replay = new Replay(
+         data.id,
+         data.gameId,
+         data.options,
+         data.seed,
+         data.seats
+      );
+      replay.events = data.events;
+      replay.result = data.result;
+      replay.startedAt = data.startedAt;
+      return replay;
+   }
+
+   record(playerIndex: number, action: GameAction): void {
+      this.events.push({ playerIndex, action });
+   }
+
+   // The game as it stood after the first `steps` events
+   rebuild(steps = this.events.length): GameState {
+      const definition = getGameDefinition(this.gameId);
+      if (!definition) throw new Error(`Unknown game "${this.gameId}"`);
+
+      const game = definition.create(this.options);
+      definition.start(
+         game,
+         this.seats.map((seat) => new Player(seat.id, seat.name)),
+         this.seed
+      );
+
+      for (const { playerIndex, action } of this.events.slice(0, steps))
+         definition.apply(game, playerIndex, action);
+
+      return game;
+   }
+}
@@ -1,8 +1,23 @@
 import { Chat } from "./chat";
-import type { SerializedGame } from "./game";
-import { Game, Hand } from "./game";
+import type { ClockSettings, SerializedClock } from "./clock";
+import { DEFAULT_CLOCK, TurnClock } from "./clock";
+import type {
+   GameAction,
+   GameDefinition,
+   GameResult,
+   GameState,
+} from "./definition";
+import { getGameDefinition } from "./games";
 import type { SerializedPlayer } from "./player";
 import { Player, PlayerStatus } from "./player";
+import { randomSeed } from "./random";
+import { clamp } from "./rules";
+import type { SerializedReplay } from "./replay";
+import { Replay } from "./replay";
+import type { ActionError } from "./validation";
+import { isActionError, validateAction } from "./validation";
+import type { Viewer } from "./visibility";
+import { ADMIN } from "./visibility";
 
 export enum RoomStatus {
    LOBBY = "lobby",
@@ -12,107 +27,404 @@ export enum RoomStatus {
 export interface RoomListing {
    code: string;
    numPlayers: number;
+   numSpectators: number;
+   maxPlayers: number;
+   locked: boolean;
+   hasPassword: boolean;
+}
+
+export interface RoomSettings {
+   // Seconds spectators lag behind the table while seeing every hand;
+   // 0 keeps them live with hands hidden
+   spectatorDelay: number;
+   // Seat cap, within the game's own player range
+   maxPlayers: number;
+   // No new players may join; spectators still can
+   locked: boolean;
+   // Left out of the public room list; joinable by code or link
+   unlisted: boolean;
+}
+
+// Sanitize room settings sent by a client, falling back to defaults per field
+export function resolveRoomSettings(
+   definition: GameDefinition,
+   data?: Partial<RoomSettings>
+): RoomSettings {
+   const settings: RoomSettings = {
+      spectatorDelay: 0,
+      maxPlayers: definition.maxPlayers,
+      locked: false,
+      unlisted: false,
+   };
+   if (!data || typeof data !== "object") return settings;
+
+   settings.spectatorDelay =
+      data.spectatorDelay === 0
+         ? 0
+         : clamp(data.spectatorDelay, 10, 600, settings.spectatorDelay);
+   settings.maxPlayers = clamp(
+      data.maxPlayers,
+      definition.minPlayers,
+      definition.maxPlayers,
+      settings.maxPlayers
+   );
+   if (typeof data.locked === "boolean") settings.locked = data.locked;
+   if (typeof data.unlisted === "boolean") settings.unlisted = data.unlisted;
+   return settings;
+}
+
+export interface ScoreEntry {
+   name: string;
+   points: number;
+   wins: number;
+   rounds: number;
 }
 
 export interface SerializedRoom {
    code: string;
    status: RoomStatus;
-   game: SerializedGame;
+   gameId: string;
+   options: unknown;
+   game: unknown;
    chat: string;
    players: Record<string, SerializedPlayer>;
+   spectators: Record<string, SerializedPlayer>;
+   settings: RoomSettings;
+   ownerId?: string;
+   hasPassword: boolean;
+   scoreboard: Record<string, ScoreEntry>;
+   seedHash?: string;
+   clockSettings: ClockSettings;
+   clock?: SerializedClock;
+}
+
+// Everything the server needs to bring a room back after a restart; never
+// sent to clients
+export interface RoomSnapshot {
+   room: SerializedRoom;
+   password?: string;
+   spectatorChat: string;
+   log?: SerializedReplay;
 }
 
-export class Room {
+export class Room<G extends GameState = GameState> {
    code: string;
    players: Map<string, Player>;
+   // Watchers, never seated and never counted towards starting
+   spectators: Map<string, Player>;
    status: RoomStatus;
-   game: Game;
+   definition: GameDefinition<G>;
+   options: unknown;
+   game: G;
    chat: Chat;
+   // Kept apart so spectators cannot pass hints to the table
+   spectatorChat: Chat;
+   settings: RoomSettings;
+   // Manages the room; passes to the next human when they leave
+   ownerId: string | undefined;
+   // Server only; clients just learn whether one is set
+   password: string | undefined;
+   hasPassword: boolean;
+   scoreboard: Map<string, ScoreEntry>;
+   // SHA-256 of the current round's seed, published before the deal
+   seedHash: string | undefined;
+   // Server-side record of the round in progress
+   log: Replay | undefined;
+   clockSettings: ClockSettings;
+   // Running only while a timed game is in progress
+   clock: TurnClock | undefined;
 
-   constructor(code: string) {
+   constructor(
+      code: string,
+      definition: GameDefinition<G>,
+      options: unknown = definition.resolveOptions()
+   ) {
       this.code = code;
       this.players = new Map();
+      this.spectators = new Map();
       this.status = RoomStatus.LOBBY;
-      this.game = new Game();
+      this.definition = definition;
+      this.options = options;
+      this.game = definition.create(options);
       this.chat = new Chat();
+      this.spectatorChat = new Chat();
+      this.settings = resolveRoomSettings(definition);
+      this.ownerId = undefined;
+      this.password = undefined;
+      this.hasPassword = false;
+      this.scoreboard = new Map();
+      this.seedHash = undefined;
+      this.log = undefined;
+      this.clockSettings = { ...DEFAULT_CLOCK };
+      this.clock = undefined;
    }
 
-   serialize(): SerializedRoom {
+   // Every snapshot is built for one viewer; see Room.findLeak
+   serialize(viewer: Viewer): SerializedRoom {
       const serializedPlayers: Record<string, SerializedPlayer> = {};
       for (const [id, player] of this.players.entries())
-         serializedPlayers[id] = player.serialize();
+         serializedPlayers[id] = player.serialize(viewer);
+
+      const serializedSpectators: Record<string, SerializedPlayer> = {};
+      for (const [id, spectator] of this.spectators.entries())
+         serializedSpectators[id] = spectator.serialize(viewer);
 
       return {
          code: this.code,
          status: this.status,
-         game: this.game.serialize(),
+         gameId: this.definition.id,
+         options: this.options,
+         game: this.definition.serialize(this.game, viewer),
          chat: this.chat.serialize(),
          players: serializedPlayers,
+         spectators: serializedSpectators,
+         settings: this.settings,
+         ownerId: this.ownerId,
+         hasPassword: this.hasPassword,
+         scoreboard: Object.fromEntries(this.scoreboard),
+         seedHash: this.seedHash,
+         clockSettings: this.clockSettings,
+         clock: this.clock?.serialize(),
       };
    }
 
+   // What a snapshot for this viewer would wrongly reveal, if anything
+   findLeak(data: SerializedRoom, viewer: Viewer): string | undefined {
+      for (const player of [
+         ...Object.values(data.players),
+         ...Object.values(data.spectators),
+      ]) {
+         const leak = Player.findLeak(player, viewer);
+         if (leak) return leak;
+      }
+
+      return this.definition.findLeak(data.game, viewer);
+   }
+
    static deserialize(data: SerializedRoom): Room {
-      const room = new Room(data.code);
+      const definition = getGameDefinition(data.gameId);
+      if (!definition) throw new Error(`Unknown game "${data.gameId}"`);
+
+      const room = new Room(data.code, definition, data.options);
       room.status = data.status;
-      room.game = Game.deserialize(data.game);
+      room.game = definition.deserialize(data.game);
       room.chat = Chat.deserialize(data.chat);
 
       const playersData = data.players;
       for (const [id, playerData] of Object.entries(playersData))
          room.players.set(id, Player.deserialize(playerData));
+      for (const [id, spectatorData] of Object.entries(data.spectators))
+         room.spectators.set(id, Player.deserialize(spectatorData));
+
+      room.settings = data.settings;
+      room.ownerId = data.ownerId;
+      room.hasPassword = data.hasPassword;
+
+      room.scoreboard = new Map(Object.entries(data.scoreboard));
+      room.seedHash = data.seedHash;
+      room.clockSettings = data.clockSettings;
+      room.clock = data.clock && TurnClock.deserialize(data.clock);
 
       return room;
    }
 
+   snapshot(): RoomSnapshot {
+      return {
+         room: this.serialize(ADMIN),
+         password: this.password,
+         spectatorChat: this.spectatorChat.serialize(),
+         log: this.log?.serialize(),
+      };
+   }
+
+   static restore(data: RoomSnapshot): Room {
+      const room = Room.deserialize(data.room);
+      room.setPassword(data.password);
+      room.spectatorChat = Chat.deserialize(data.spectatorChat);
+      room.log = data.log && Replay.deserialize(data.log);
+
+      // The game seats the room's own players, not copies of them
+      room.game.players = room.game.players.map(
+         (player) => room.players.get(player.id) ?? player
+      );
+
+      return room;
+   }
+
+   // Counts the seats in play, or the seat cap while in the lobby
+   variant(): string {
+      return this.definition.variant(
+         this.options,
+         this.status === RoomStatus.PLAYING
+            ? this.game.players.length
+            : this.settings.maxPlayers
+      );
+   }
+
    getRoomListing(): RoomListing {
       return {
          code: this.code,
          numPlayers: this.players.size,
+         numSpectators: this.spectators.size,
+         maxPlayers: this.settings.maxPlayers,
+         locked: this.settings.locked,
+         hasPassword: this.hasPassword,
       };
    }
 
    addPlayer(player: Player): void {
       this.players.set(player.id, player);
+      if (!this.ownerId && !player.bot) this.ownerId = player.id;
    }
 
+   // Ownership passes to the longest-seated human left
    removePlayer(id: string): void {
       this.players.delete(id);
+      if (this.ownerId === id)
+         this.ownerId = [...this.players.values()].find((p) => !p.bot)?.id;
+   }
+
+   get owner(): Player | undefined {
+      return this.ownerId ? this.players.get(this.ownerId) : undefined;
+   }
+
+   isOwner(id: string): boolean {
+      return this.ownerId === id;
+   }
+
+   isFull(): boolean {
+      return this.players.size >= this.settings.maxPlayers;
+   }
+
+   // An empty password opens the room again
+   setPassword(password: string | undefined): void {
+      this.password = password || undefined;
+      this.hasPassword = this.password !== undefined;
    }
 
    getPlayer(id: string): Player | undefined {
       return this.players.get(id);
    }
 
+   addSpectator(spectator: Player): void {
+      this.spectators.set(spectator.id, spectator);
+   }
+
+   removeSpectator(id: string): void {
+      this.spectators.delete(id);
+   }
+
+   isSpectator(id: string): boolean {
+      return this.spectators.has(id);
+   }
+
+   // Bots never keep a room alive on their own
    allPlayersDisconnected(): boolean {
-      if (this.players.size === 0) return true;
-      for (const player of this.players.values())
-         if (player.status !== PlayerStatus.DISCONNECTED) return false;
+      for (const player of this.players.values()) {
+         if (!player.bot && player.status !== PlayerStatus.DISCONNECTED)
+            return false;
+      }
 
       return true;
    }
 
-   tryStartRoom(): boolean {
-      if (this.status !== RoomStatus.LOBBY) return false;
-      if (this.players.size < 2) return false;
+   bots(): Player[] {
+      return [...this.players.values()].filter((player) => player.bot);
+   }
 
+   allPlayersReady(): boolean {
       for (const player of this.players.values())
          if (player.status !== PlayerStatus.READY) return false;
 
+      return true;
+   }
+
+   // Reason the current players cannot start this game, if any
+   checkPlayerCount(): string | undefined {
+      const { name, minPlayers, maxPlayers } = this.definition;
+      if (this.players.size >= minPlayers && this.players.size <= maxPlayers)
+         return undefined;
+
+      return `${name} needs ${minPlayers} to ${maxPlayers} players`;
+   }
+
+   tryStartRoom(seed = randomSeed(), seedHash?: string): boolean {
+      if (this.status !== RoomStatus.LOBBY) return false;
+      if (this.checkPlayerCount()) return false;
+      if (!this.allPlayersReady()) return false;
+
       this.status = RoomStatus.PLAYING;
-      this.game.startGame([...this.players.values()]);
+      this.game = this.definition.create(this.options);
+      this.definition.start(this.game, [...this.players.values()], seed);
+      this.seedHash = seedHash;
+      this.clock =
+         this.clockSettings.moveSeconds > 0
+            ? new TurnClock(this.clockSettings, this.game.players.length)
+            : undefined;
+
+      this.log = new Replay(
+         randomSeed().slice(0, 12),
+         this.definition.id,
+         this.options,
+         seed,
+         this.game.players.map(({ id, name }) => ({ id, name }))
+      );
 
       return true;
    }
 
+   // Validate and apply an action, appending it to the round's log. The
+   // action as validated is returned for sending on
+   applyAction(
+      playerIndex: number | undefined,
+      action: unknown
+   ): ActionError | GameAction {
+      const checked = validateAction(
+         this.definition,
+         this.game,
+         playerIndex,
+         action
+      );
+      if (isActionError(checked)) return checked;
+
+      this.definition.apply(this.game, playerIndex!, checked);
+      this.log?.record(playerIndex!, checked);
+      return checked;
+   }
+
+   // Tally a finished game; the scoreboard outlives rounds and departures
+   recordResult(result: GameResult): void {
+      if (this.log) this.log.result = result;
+
+      for (const [index, player] of this.game.players.entries()) {
+         const entry = this.scoreboard.get(player.id) ?? {
+            name: player.name,
+            points: 0,
+            wins: 0,
+            rounds: 0,
+         };
+
+         entry.name = player.name;
+         entry.points += result.scores[index] ?? 0;
+         entry.rounds++;
+         if (result.winners.includes(index)) entry.wins++;
+
+         this.scoreboard.set(player.id, entry);
+      }
+   }
+
    endRoom(): void {
       this.status = RoomStatus.LOBBY;
+      this.clock = undefined;
 
       for (const player of this.players.values()) {
          if (player.status === PlayerStatus.DISCONNECTED) {
             this.removePlayer(player.id);
          } else {
-            player.status = PlayerStatus.NOT_READY;
-            player.hand = new Hand([]);
+            player.status = player.bot
+               ? PlayerStatus.READY
+               : PlayerStatus.NOT_READY;
+            this.definition.clearSeat(player);
             player.index = undefined; // Clear game position
          }
       }
@@ -0,0 +1,137 @@
+import type { Rank } from "./card";
+
+export enum BiddingMode {
+   // Outbid each other with the values in `bids`
+   POINTS = "points",
+   // Call the landlord, then rob it (叫地主/抢地主)
+   ROB = "rob",
+}
+
+export interface GameRules {
+   decks: number;
+   removedRanks: Rank[];
+   handSize: number;
+   bottomSize: number;
+   bidding: BiddingMode;
+   bids: number[];
+   minStraightLength: number;
+   minPairStraightLength: number;
+   minTripleStraightLength: number;
+   // Highest rank a straight may reach (2s and jokers are always excluded)
+   straightCap: Rank;
+   // Longer bombs outrank shorter ones before rank is compared
+   bombsByLength: boolean;
+   // Rocket beats every bomb; otherwise it ranks as the highest 4-card bomb
+   rocketHighest: boolean;
+}
+
+export const DEFAULT_RULES: GameRules = {
+   decks: 1,
+   removedRanks: [],
+   handSize: 17,
+   bottomSize: 3,
+   bidding: BiddingMode.POINTS,
+   bids: [1, 2, 3],
+   minStraightLength: 5,
+   minPairStraightLength: 3,
+   minTripleStraightLength: 2,
+   straightCap: 1,
+   bombsByLength: false,
+   rocketHighest: true,
+};
+
+export type DealLayout = Pick<
+   GameRules,
+   "decks" | "removedRanks" | "handSize" | "bottomSize"
+> &
+   Partial<Pick<GameRules, "bombsByLength">>;
+
+// Two players play without 3s and 4s and leave the undealt cards aside.
+// Four players share two decks, which allows bombs of up to 8 cards; as is
+// standard there, a longer bomb beats any shorter one
+export const DEAL_LAYOUTS: Partial<Record<number, DealLayout>> = {
+   2: { decks: 1, removedRanks: [3, 4], handSize: 17, bottomSize: 3 },
+   3: { decks: 1, removedRanks: [], handSize: 17, bottomSize: 3 },
+   4: {
+      decks: 2,
+      removedRanks: [],
+      handSize: 25,
+      bottomSize: 8,
+      bombsByLength: true,
+   },
+};
+
+export function rulesForPlayers(
+   rules: GameRules,
+   count: number
+): GameRules | undefined {
+   const layout = DEAL_LAYOUTS[count];
+   if (!layout) return undefined;
+
+   return { ...rules, ...layout };
+}
+
+const STRAIGHT_CAPS = new Set<number>([1, 6, 7, 8, 9, 10, 11, 12, 13]);
+
+export function clamp(
+   value: unknown,
+   min: number,
+   max: number,
+   fallback: number
+): number {
+   return typeof value === "number" && Number.isInteger(value)
+      ? Math.min(max, Math.max(min, value))
+      : fallback;
+}
+
+// Sanitize rules sent by a client, falling back to defaults per field
+export function resolveRules(data?: Partial<GameRules>): GameRules {
+   const rules = { ...DEFAULT_RULES };
+   if (!data || typeof data !== "object") return rules;
+
+   rules.minStraightLength = clamp(
+      data.minStraightLength,
+      3,
+      12,
+      rules.minStraightLength
+   );
+   rules.minPairStraightLength = clamp(
+      data.minPairStraightLength,
+      2,
+      10,
+      rules.minPairStraightLength
+   );
+   rules.minTripleStraightLength = clamp(
+      data.minTripleStraightLength,
+      2,
+      6,
+      rules.minTripleStraightLength
+   );
+
+   if (
+      typeof data.straightCap === "number" &&
+      STRAIGHT_CAPS.has(data.straightCap)
+   )
+      rules.straightCap = data.straightCap;
+
+   if (Array.isArray(data.bids)) {
+      const bids = [...new Set(data.bids)]
+         .filter((bid) => Number.isInteger(bid) && bid > 0 && bid <= 10)
+         .toSorted((a, b) => a - b);
+      if (bids.length > 0) rules.bids = bids;
+   }
+
+   if (Object.values(BiddingMode).includes(data.bidding as BiddingMode))
+      rules.bidding = data.bidding as BiddingMode;
+
+   if (typeof data.bombsByLength === "boolean")
+      rules.bombsByLength = data.bombsByLength;
+   if (typeof data.rocketHighest === "boolean")
+      rules.rocketHighest = data.rocketHighest;
+
+   return rules;
+}
+
+export function maxBid(rules: GameRules): number {
+   return rules.bids.at(-1) ?? 0;
+}
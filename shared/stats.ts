@@ -0,0 +1,141 @@
+// What one seat did in a finished game, as the game itself reports it
+export interface SeatOutcome {
+   // Played the lone side against the rest of the table
+   soloSide: boolean;
+   // Game-specific tallies, keyed by the game, such as bombs played
+   counts: Record<string, number>;
+}
+
+export interface PlayerStats {
+   games: number;
+   wins: number;
+   soloGames: number;
+   soloWins: number;
+   teamGames: number;
+   teamWins: number;
+   // Game-specific tallies over every game, and over the games won
+   counts: Record<string, number>;
+   winningCounts: Record<string, number>;
+   totalScore: number;
+   rating: number;
+}
+
+// Derived figures for display; rates are fractions, undefined before the
+// first game that counts towards them
+export interface StatsSummary {
+   games: number;
+   soloWinRate: number | undefined;
+   teamWinRate: number | undefined;
+   counts: Record<string, number>;
+   // Share of the games adding to each tally that were won
+   countWinRates: Record<string, number | undefined>;
+   averageScore: number;
+   rating: number;
+}
+
+export const INITIAL_RATING = 1500;
+
+// Elo points at stake in each game
+const RATING_K = 32;
+// Rating edge conceded by the solo side, who wins somewhat less often than
+// the equally rated team
+const SOLO_HANDICAP = 50;
+
+export function emptyStats(): PlayerStats {
+   return {
+      games: 0,
+      wins: 0,
+      soloGames: 0,
+      soloWins: 0,
+      teamGames: 0,
+      teamWins: 0,
+      counts: {},
+      winningCounts: {},
+      totalScore: 0,
+      rating: INITIAL_RATING,
+   };
+}
+
+// Fold one finished game into a player's stats
+export function recordOutcome(
+   stats: PlayerStats,
+   outcome: SeatOutcome,
+   won: boolean,
+   score: number,
+   ratingChange: number
+): void {
+   const win = won ? 1 : 0;
+
+   stats.games++;
+   stats.wins += win;
+   if (outcome.soloSide) {
+      stats.soloGames++;
+      stats.soloWins += win;
+   } else {
+      stats.teamGames++;
+      stats.teamWins += win;
+   }
+
+   stats.counts = addCounts(stats.counts, outcome.counts);
+   if (won)
+      stats.winningCounts = addCounts(stats.winningCounts, outcome.counts);
+
+   stats.totalScore += score;
+   stats.rating += ratingChange;
+}
+
+// Copies are made so stats read from storage are never changed in place
+function addCounts(
+   totals: Record<string, number>,
+   counts: Record<string, number>
+): Record<string, number> {
+   const sum = { ...totals };
+   for (const [key, count] of Object.entries(counts))
+      sum[key] = (sum[key] ?? 0) + count;
+   return sum;
+}
+
+// The solo side is rated against the team's average, and the team splits
+// the solo side's gain or loss between them
+export function ratingChanges(
+   ratings: number[],
+   outcomes: SeatOutcome[],
+   soloWon: boolean
+): number[] {
+   const soloIndex = outcomes.findIndex((outcome) => outcome.soloSide);
+   if (soloIndex === -1 || ratings.length < 2) return ratings.map(() => 0);
+
+   let teamTotal = 0;
+   for (const [index, rating] of ratings.entries())
+      if (index !== soloIndex) teamTotal += rating;
+
+   const team = ratings.length - 1;
+   const gap = teamTotal / team + SOLO_HANDICAP - ratings[soloIndex];
+   const expected = 1 / (1 + 10 ** (gap / 400));
+   const change = RATING_K * ((soloWon ? 1 : 0) - expected);
+
+   return ratings.map((_, index) =>
+      index === soloIndex ? change : -change / team
+   );
+}
+
+export function summarizeStats(stats: PlayerStats): StatsSummary {
+   return {
+      games: stats.games,
+      soloWinRate: rate(stats.soloWins, stats.soloGames),
+      teamWinRate: rate(stats.teamWins, stats.teamGames),
+      counts: stats.counts,
+      countWinRates: Object.fromEntries(
+         Object.entries(stats.counts).map(([key, count]) => [
+            key,
+            rate(stats.winningCounts[key] ?? 0, count),
+         ])
+      ),
+      averageScore: stats.games > 0 ? stats.totalScore / stats.games : 0,
+      rating: Math.round(stats.rating),
+   };
+}
+
+function rate(part: number, total: number): number | undefined {
+   return total > 0 ? part / total : undefined;
+}
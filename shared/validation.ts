@@ -0,0 +1,61 @@
+import type { GameAction, GameDefinition, GameState } from "./definition";
+
+export enum ActionErrorCode {
+   MALFORMED = "malformed",
+   UNKNOWN_ACTION = "unknown_action",
+   NOT_SEATED = "not_seated",
+   NOT_YOUR_TURN = "not_your_turn",
+   WRONG_PHASE = "wrong_phase",
+   BAD_PAYLOAD = "bad_payload",
+   NOT_OWNED = "not_owned",
+   INVALID_BID = "invalid_bid",
+   INVALID_PLAY = "invalid_play",
+   CANNOT_PASS = "cannot_pass",
+}
+
+export interface ActionError {
+   code: ActionErrorCode;
+   message: string;
+}
+
+export function actionError(
+   code: ActionErrorCode,
+   message: string
+): ActionError {
+   return { code, message };
+}
+
+export function isActionError(
+   checked: ActionError | GameAction
+): checked is ActionError {
+   return "code" in checked;
+}
+
+// Every action passes through here before reaching the game. Checks that
+// hold for any game live here; the definition checks its own payloads and
+// rebuilds the action from them, so nothing else the client sent is kept
+export function validateAction(
+   definition: GameDefinition,
+   game: GameState,
+   playerIndex: number | undefined,
+   action: unknown
+): ActionError | GameAction {
+   if (typeof action !== "object" || action === null)
+      return actionError(ActionErrorCode.MALFORMED, "Malformed action");
+
+   const { type } = action as Partial<GameAction>;
+   if (typeof type !== "string" || !definition.actions.includes(type))
+      return actionError(ActionErrorCode.UNKNOWN_ACTION, "Unknown action");
+
+   if (playerIndex === undefined || !game.players[playerIndex]) {
+      return actionError(
+         ActionErrorCode.NOT_SEATED,
+         "You are not in this game"
+      );
+   }
+
+   if (playerIndex !== game.currentIndex)
+      return actionError(ActionErrorCode.NOT_YOUR_TURN, "It is not your turn");
+
+   return definition.validate(game, playerIndex, action as GameAction);
+}
@@ -0,0 +1,33 @@
+export enum ViewerRole {
+   // A seated player: sees their own hand only
+   SEAT = "seat",
+   // Watching the table: sees no hands
+   SPECTATOR = "spectator",
+   // Watching a room's delayed feed: sees every hand, but not the deal seed
+   DELAYED = "delayed",
+   // Server internals, persistence and finished replays: sees everything
+   ADMIN = "admin",
+}
+
+export type Viewer =
+   | { role: ViewerRole.SEAT; index: number }
+   | { role: ViewerRole.SPECTATOR }
+   | { role: ViewerRole.DELAYED }
+   | { role: ViewerRole.ADMIN };
+
+export const SPECTATOR: Viewer = { role: ViewerRole.SPECTATOR };
+export const DELAYED_SPECTATOR: Viewer = { role: ViewerRole.DELAYED };
+export const ADMIN: Viewer = { role: ViewerRole.ADMIN };
+
+// Players without a seat in the current game watch as spectators
+export function viewerFor(seatIndex: number | undefined): Viewer {
+   return seatIndex === undefined
+      ? SPECTATOR
+      : { role: ViewerRole.SEAT, index: seatIndex };
+}
+
+export function canSeeHand(viewer: Viewer, seatIndex?: number): boolean {
+   if (viewer.role === ViewerRole.ADMIN || viewer.role === ViewerRole.DELAYED)
+      return true;
+   return viewer.role === ViewerRole.SEAT && viewer.index === seatIndex;
+}
@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { BidKind, Game, GamePhase } from "../shared/game";
+import { Player } from "../shared/player";
+import type { GameRules } from "../shared/rules";
+import {
+   BiddingMode,
+   DEFAULT_RULES,
+   maxBid,
+   resolveRules,
+} from "../shared/rules";
+
+function startedGame(rules: GameRules = DEFAULT_RULES): Game {
+   const game = new Game(rules);
+   const players = Array.from(
+      { length: 3 },
+      (_, index) => new Player(`p${index}`, `Player ${index}`)
+   );
+
+   game.startGame(players, "bidding-test");
+   return game;
+}
+
+function kinds(game: Game): BidKind[] {
+   return game.bids.map((bid) => bid.kind);
+}
+
+describe("bidding for points", () => {
+   test("each bid must beat the last", () => {
+      const game = startedGame();
+      assert.equal(game.currentIndex, 0);
+      assert.ok(game.isValidBid(0));
+      assert.ok(game.isValidBid(1));
+      assert.ok(!game.isValidBid(4));
+      assert.ok(!game.isValidBid(1.5));
+
+      assert.equal(game.betLandlord(1), false);
+      assert.ok(!game.isValidBid(1));
+      assert.equal(game.betLandlord(1), undefined);
+      assert.equal(game.betLandlord(2), false);
+      assert.equal(game.betLandlord(0), false);
+
+      // Back to the first bidder, who may still raise or pass
+      assert.equal(game.currentIndex, 0);
+      assert.equal(game.betLandlord(0), true);
+
+      assert.equal(game.landlordIndex, 1);
+      assert.equal(game.currentIndex, 1);
+      assert.equal(game.bet, 2);
+      assert.deepEqual(kinds(game), [
+         BidKind.BID,
+         BidKind.BID,
+         BidKind.PASS,
+         BidKind.PASS,
+      ]);
+
+      game.becomeLandlord();
+      assert.equal(game.phase, GamePhase.PLAYING);
+      assert.equal(game.players[1].hand.cards.length, 20);
+      assert.ok(!game.isValidBid(0));
+   });
+
+   test("the highest bid ends bidding at once", () => {
+      const game = startedGame();
+      assert.equal(game.betLandlord(0), false);
+      assert.equal(game.betLandlord(maxBid(game.rules)), true);
+      assert.equal(game.landlordIndex, 1);
+      assert.equal(game.bet, 3);
+   });
+
+   test("the highest bid follows the room's bids", () => {
+      const rules = resolveRules({ bids: [5, 1, 3, 3] });
+      assert.deepEqual(rules.bids, [1, 3, 5]);
+      assert.equal(maxBid(rules), 5);
+
+      const game = startedGame(rules);
+      assert.ok(!game.isValidBid(2));
+      assert.equal(game.betLandlord(3), false);
+      assert.equal(game.betLandlord(5), true);
+      assert.equal(game.landlordIndex, 1);
+   });
+
+   test("everyone passing redeals to the next first bidder", () => {
+      const game = startedGame();
+      const hand = game.players[0].hand.cards;
+
+      for (let seat = 0; seat < 3; seat++)
+         assert.equal(game.betLandlord(0), false);
+
+      assert.equal(game.redeals, 1);
+      assert.equal(game.phase, GamePhase.BIDDING);
+      assert.equal(game.currentIndex, 1);
+      assert.equal(game.landlordIndex, undefined);
+      assert.deepEqual(game.bids, []);
+      assert.notDeepEqual(game.players[0].hand.cards, hand);
+      assert.equal(game.players[0].hand.cards.length, 17);
+      assert.equal(game.bottom.length, 3);
+   });
+});
+
+describe("calling and robbing", () => {
+   const rules = resolveRules({ bidding: BiddingMode.ROB });
+
+   test("only accepting or declining is valid", () => {
+      const game = startedGame(rules);
+      assert.ok(game.isValidBid(0));
+      assert.ok(game.isValidBid(1));
+      assert.ok(!game.isValidBid(2));
+   });
+
+   test("the caller gets the last chance to rob back", () => {
+      const game = startedGame(rules);
+
+      // Seat 0 declines to call, so only seat 2 may rob seat 1
+      assert.equal(game.betLandlord(0), false);
+      assert.equal(game.betLandlord(1), false);
+      assert.equal(game.currentIndex, 2);
+      assert.equal(game.betLandlord(1), false);
+      assert.equal(game.currentIndex, 1);
+      assert.equal(game.betLandlord(1), true);
+
+      assert.deepEqual(kinds(game), [
+         BidKind.PASS,
+         BidKind.CALL,
+         BidKind.ROB,
+         BidKind.ROB,
+      ]);
+      assert.equal(game.landlordIndex, 1);
+      assert.equal(game.currentIndex, 1);
+      assert.equal(game.bet, 1);
+      assert.equal(game.robs, 2);
+      assert.equal(game.multiplier, 4);
+   });
+
+   test("an unrobbed call ends once everyone declines", () => {
+      const game = startedGame(rules);
+      assert.equal(game.betLandlord(1), false);
+      assert.equal(game.betLandlord(0), false);
+      assert.equal(game.currentIndex, 2);
+      assert.equal(game.betLandlord(0), true);
+
+      assert.equal(game.landlordIndex, 0);
+      assert.equal(game.robs, 0);
+      assert.equal(game.multiplier, 1);
+   });
+
+   test("nobody calling redeals", () => {
+      const game = startedGame(rules);
+      for (let seat = 0; seat < 3; seat++)
+         assert.equal(game.betLandlord(0), false);
+
+      assert.equal(game.redeals, 1);
+      assert.equal(game.currentIndex, 1);
+      assert.deepEqual(game.bids, []);
+   });
+});
@@ -0,0 +1,24 @@
+import type { Card, Rank, Suit } from "../shared/card";
+
+const FACES: Record<string, Rank> = { A: 1, J: 11, Q: 12, K: 13 };
+const SUITS: Suit[] = ["s", "h", "c", "d"];
+
+// Cards written as ranks, e.g. "3 3 10 J A 2 BJ RJ". Repeated ranks take
+// the next suit, so every card is its own object
+export function cards(text: string): Card[] {
+   const seen = new Map<string, number>();
+
+   return text.split(" ").map((name): Card => {
+      const copies = seen.get(name) ?? 0;
+      seen.set(name, copies + 1);
+
+      if (name === "BJ" || name === "RJ")
+         return { type: "Joker", color: name === "BJ" ? "BLACK" : "RED" };
+
+      return {
+         type: "Playing",
+         suit: SUITS[copies % SUITS.length],
+         rank: FACES[name] ?? (Number(name) as Rank),
+      };
+   });
+}
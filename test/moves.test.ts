@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { Play } from "../shared/game";
+import { Game, GamePhase, Hand, PlayType } from "../shared/game";
+import { candidatePlays } from "../shared/moves";
+import { DEFAULT_RULES, resolveRules } from "../shared/rules";
+import { cards } from "./cards";
+
+// A game in play, following lastText (or leading without it)
+function playingGame(lastText?: string): Game {
+   const game = new Game();
+   game.phase = GamePhase.PLAYING;
+   if (lastText) {
+      game.lastPlay = game.findPlay(cards(lastText));
+      assert.ok(game.lastPlay, `${lastText} is a play`);
+   }
+
+   return game;
+}
+
+function describeMoves(moves: Play[]): string[] {
+   return moves.map(
+      (move) =>
+         `${move.type} ${move.cards.map((card) => Hand.getCardValue(card)).join(",")}`
+   );
+}
+
+describe("legal moves", () => {
+   test("a lead may play anything, weakest first", () => {
+      const game = playingGame();
+      const moves = game.legalMoves(new Hand(cards("3 3 4 5 6 7 8")));
+
+      assert.ok(!game.canPass());
+      assert.equal(moves.length, 10);
+      assert.deepEqual(describeMoves(moves).slice(0, 4), [
+         `${PlayType.SOLO} 3`,
+         `${PlayType.PAIR} 3,3`,
+         `${PlayType.STRAIGHT} 3,4,5,6,7`,
+         `${PlayType.STRAIGHT} 3,4,5,6,7,8`,
+      ]);
+   });
+
+   test("a follow must match the last play and beat it", () => {
+      const game = playingGame("5 5");
+      const moves = game.legalMoves(new Hand(cards("3 3 6 6 9 9 2")));
+
+      assert.ok(game.canPass());
+      assert.deepEqual(describeMoves(moves), [
+         `${PlayType.PAIR} 6,6`,
+         `${PlayType.PAIR} 9,9`,
+      ]);
+   });
+
+   test("passing is the only answer when nothing beats", () => {
+      const game = playingGame("2");
+      assert.deepEqual(game.legalMoves(new Hand(cards("3 4 A"))), []);
+      assert.ok(game.canPass());
+   });
+
+   test("bombs and the rocket beat any other play", () => {
+      const game = playingGame("3 4 5 6 7");
+      const hand = new Hand(cards("3 6 6 6 6 BJ RJ"));
+
+      assert.deepEqual(describeMoves(game.legalMoves(hand)), [
+         `${PlayType.BOMB} 6,6,6,6`,
+         `${PlayType.ROCKET} 53,54`,
+      ]);
+
+      // Only the rocket tops a higher bomb
+      const bombed = playingGame("7 7 7 7");
+      assert.deepEqual(describeMoves(bombed.legalMoves(hand)), [
+         `${PlayType.ROCKET} 53,54`,
+      ]);
+   });
+
+   test("passing is only for the playing phase", () => {
+      const game = playingGame("5");
+      game.phase = GamePhase.BIDDING;
+      assert.ok(!game.canPass());
+   });
+});
+
+describe("finding plays", () => {
+   test("plays belong to the current player", () => {
+      const game = playingGame();
+      game.currentIndex = 2;
+      assert.equal(game.findPlay(cards("9"))?.playerIndex, 2);
+   });
+
+   test("cards that cannot beat the last play are no play", () => {
+      const game = playingGame("5 5");
+      assert.equal(game.findPlay(cards("4 4")), undefined);
+      assert.equal(game.findPlay(cards("9")), undefined);
+      assert.equal(game.findPlay(cards("9 9"))?.type, PlayType.PAIR);
+      assert.equal(game.findPlay(cards("9 9 9 9"))?.type, PlayType.BOMB);
+   });
+});
+
+describe("candidate plays", () => {
+   test("are drawn from the hand", () => {
+      const hand = cards("3 3 3 4 4 4 7 9 BJ RJ");
+      const candidates = candidatePlays(hand, DEFAULT_RULES);
+
+      for (const candidate of candidates)
+         assert.ok(candidate.every((card) => hand.includes(card)));
+
+      const types = new Set(
+         candidates.flatMap((candidate) =>
+            Game.classifyPlay(candidate).map((shape) => shape.type)
+         )
+      );
+      for (const type of [
+         PlayType.TRIPLE_STRAIGHT,
+         PlayType.AIRPLANE_WITH_SINGLES,
+         PlayType.TRIPLE_WITH_PAIR,
+         PlayType.ROCKET,
+      ])
+         assert.ok(types.has(type), `${type} is a candidate`);
+   });
+
+   test("runs stop at the straight cap", () => {
+      const hand = cards("9 10 J Q K A");
+      const longest = (rules = DEFAULT_RULES): number =>
+         Math.max(
+            ...candidatePlays(hand, rules).map((candidate) => candidate.length)
+         );
+
+      assert.equal(longest(), 6);
+      assert.equal(longest(resolveRules({ straightCap: 13 })), 5);
+   });
+});
@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { Play } from "../shared/game";
+import { Game, PlayType } from "../shared/game";
+import type { GameRules } from "../shared/rules";
+import { DEFAULT_RULES, resolveRules, rulesForPlayers } from "../shared/rules";
+import { cards } from "./cards";
+
+function types(text: string, rules: GameRules = DEFAULT_RULES): PlayType[] {
+   return Game.classifyPlay(cards(text), rules).map((shape) => shape.type);
+}
+
+function play(text: string, rules: GameRules = DEFAULT_RULES): Play {
+   const found = new Game(rules).findPlay(cards(text));
+   assert.ok(found, `${text} is a play`);
+   return found;
+}
+
+describe("play types", () => {
+   const examples: [PlayType, string][] = [
+      [PlayType.SOLO, "3"],
+      [PlayType.PAIR, "3 3"],
+      [PlayType.TRIPLE, "3 3 3"],
+      [PlayType.TRIPLE_WITH_SINGLE, "3 3 3 4"],
+      [PlayType.TRIPLE_WITH_PAIR, "3 3 3 4 4"],
+      [PlayType.STRAIGHT, "3 4 5 6 7"],
+      [PlayType.PAIR_STRAIGHT, "3 3 4 4 5 5"],
+      [PlayType.TRIPLE_STRAIGHT, "3 3 3 4 4 4"],
+      [PlayType.AIRPLANE_WITH_SINGLES, "3 3 3 4 4 4 7 9"],
+      [PlayType.AIRPLANE_WITH_PAIRS, "3 3 3 4 4 4 7 7 9 9"],
+      [PlayType.QUAD_WITH_SINGLES, "5 5 5 5 3 4"],
+      [PlayType.QUAD_WITH_PAIRS, "5 5 5 5 3 3 4 4"],
+      [PlayType.BOMB, "5 5 5 5"],
+      [PlayType.ROCKET, "BJ RJ"],
+   ];
+
+   for (const [type, text] of examples) {
+      test(`${type}: ${text}`, () => {
+         assert.equal(play(text).type, type);
+      });
+   }
+
+   test("unrelated cards are no play", () => {
+      assert.deepEqual(types("3 4"), []);
+      assert.deepEqual(types("3 3 4 4"), []);
+      assert.deepEqual(types("3 3 3 5 5 5"), []);
+   });
+
+   test("ambiguous cards are read the way that beats the last play", () => {
+      const text = "3 3 3 4 4 4 5 5 5 6 6 6";
+      assert.deepEqual(types(text), [
+         PlayType.TRIPLE_STRAIGHT,
+         PlayType.AIRPLANE_WITH_SINGLES,
+         PlayType.AIRPLANE_WITH_SINGLES,
+      ]);
+
+      const game = new Game();
+      const lastPlay = play("3 3 3 4 4 4 5 5 5 7 8 9");
+      const answer = game.findPlay(cards(text), lastPlay);
+      assert.ok(answer);
+      assert.equal(answer.type, PlayType.AIRPLANE_WITH_SINGLES);
+      assert.equal(answer.value, 4);
+   });
+});
+
+describe("kickers", () => {
+   test("both jokers are not single kickers", () => {
+      assert.deepEqual(types("3 3 3 4 4 4 BJ RJ"), []);
+      assert.deepEqual(types("5 5 5 5 BJ RJ"), []);
+      assert.equal(
+         play("3 3 3 4 4 4 7 BJ").type,
+         PlayType.AIRPLANE_WITH_SINGLES
+      );
+   });
+
+   test("pair kickers must be real pairs", () => {
+      assert.deepEqual(types("3 3 3 4 4 4 7 8 9 9"), []);
+      assert.deepEqual(types("5 5 5 5 3 4 6 6"), []);
+   });
+
+   test("a four of a kind counts as two pairs", () => {
+      assert.equal(
+         play("3 3 3 4 4 4 9 9 9 9").type,
+         PlayType.AIRPLANE_WITH_PAIRS
+      );
+
+      // Either quad carries the other, the higher core read first
+      const readings = Game.classifyPlay(cards("5 5 5 5 7 7 7 7"));
+      assert.deepEqual(
+         readings.map((shape) => [shape.type, shape.value]),
+         [
+            [PlayType.QUAD_WITH_PAIRS, 7],
+            [PlayType.QUAD_WITH_PAIRS, 5],
+         ]
+      );
+   });
+
+   test("a fourth card of a core rank may be a kicker", () => {
+      assert.equal(
+         play("3 3 3 3 4 4 4 9").type,
+         PlayType.AIRPLANE_WITH_SINGLES
+      );
+   });
+});
+
+describe("straights", () => {
+   test("run up to the ace by default", () => {
+      assert.equal(play("10 J Q K A").type, PlayType.STRAIGHT);
+      assert.equal(play("Q Q K K A A").type, PlayType.PAIR_STRAIGHT);
+      assert.deepEqual(types("J Q K A 2"), []);
+      assert.deepEqual(types("3 4 5 6"), []);
+   });
+
+   test("stop at the cap", () => {
+      const capped = resolveRules({ straightCap: 13 });
+      assert.equal(play("9 10 J Q K", capped).type, PlayType.STRAIGHT);
+      assert.deepEqual(types("10 J Q K A", capped), []);
+      assert.deepEqual(types("Q Q K K A A", capped), []);
+
+      const low = resolveRules({ straightCap: 7 });
+      assert.equal(play("3 4 5 6 7", low).type, PlayType.STRAIGHT);
+      assert.deepEqual(types("4 5 6 7 8", low), []);
+   });
+
+   test("follow the minimum lengths", () => {
+      const short = resolveRules({
+         minStraightLength: 3,
+         minPairStraightLength: 2,
+      });
+      assert.equal(play("3 4 5", short).type, PlayType.STRAIGHT);
+      assert.equal(play("3 3 4 4", short).type, PlayType.PAIR_STRAIGHT);
+
+      const long = resolveRules({ minTripleStraightLength: 3 });
+      assert.deepEqual(types("3 3 3 4 4 4", long), []);
+   });
+});
+
+describe("bomb ordering", () => {
+   const twoDecks = rulesForPlayers(DEFAULT_RULES, 4)!;
+   const byRank: GameRules = { ...twoDecks, bombsByLength: false };
+
+   const beats = (text: string, last: string, rules: GameRules): boolean =>
+      Game.canBeat(play(text, rules), play(last, rules), rules);
+
+   test("bombs beat every other play", () => {
+      assert.ok(beats("3 3 3 3", "2 2", DEFAULT_RULES));
+      assert.ok(beats("3 3 3 3", "3 3 3 4 4 4 7 7 9 9", DEFAULT_RULES));
+      assert.ok(beats("4 4 4 4", "3 3 3 3", DEFAULT_RULES));
+      assert.ok(!beats("3 3 3 3", "4 4 4 4", DEFAULT_RULES));
+   });
+
+   test("a longer bomb wins when bombs rank by length", () => {
+      assert.ok(twoDecks.bombsByLength);
+      assert.ok(beats("3 3 3 3 3", "2 2 2 2", twoDecks));
+      assert.ok(beats("4 4 4 4 4", "3 3 3 3 3", twoDecks));
+      assert.ok(!beats("2 2 2 2", "3 3 3 3 3", twoDecks));
+   });
+
+   test("rank alone decides otherwise", () => {
+      assert.ok(beats("2 2 2 2", "3 3 3 3 3", byRank));
+      assert.ok(!beats("3 3 3 3 3", "2 2 2 2", byRank));
+   });
+
+   test("the rocket", () => {
+      const rocket = "BJ BJ RJ RJ";
+      assert.equal(play(rocket, twoDecks).type, PlayType.ROCKET);
+      assert.deepEqual(types("BJ RJ", twoDecks), []);
+      assert.ok(beats(rocket, "2 2 2 2 2 2 2 2", twoDecks));
+
+      // Without rocketHighest it only tops the 4-card bombs
+      const lower = { ...twoDecks, rocketHighest: false };
+      assert.ok(beats(rocket, "2 2 2 2", lower));
+      assert.ok(!beats(rocket, "3 3 3 3 3", lower));
+   });
+});
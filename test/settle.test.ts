@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Game, GamePhase, Hand } from "../shared/game";
+import { Player } from "../shared/player";
+import { cards } from "./cards";
+
+// A game past bidding, seat 0 the landlord and leading
+function landlordGame(hands: string[], bet: number): Game {
+   const game = new Game();
+   game.players = hands.map((text, index) => {
+      const player = new Player(`p${index}`, `Player ${index}`);
+      player.index = index;
+      player.hand = new Hand(cards(text));
+      return player;
+   });
+
+   game.phase = GamePhase.PLAYING;
+   game.landlordIndex = 0;
+   game.bet = bet;
+   game.bombs = hands.map(() => 0);
+   game.plays = hands.map(() => 0);
+   return game;
+}
+
+// Play each turn in order; an empty turn passes
+function playTurns(game: Game, turns: string[]): void {
+   for (const turn of turns) {
+      const played = game.playCards(turn ? cards(turn) : []);
+      assert.notEqual(played, undefined, `"${turn}" can be played`);
+   }
+}
+
+test("nothing is settled before the game ends", () => {
+   const game = landlordGame(["5 7", "6", "4"], 2);
+   assert.equal(game.settle(), undefined);
+
+   playTurns(game, ["5"]);
+   assert.equal(game.settle(), undefined);
+});
+
+test("the bid is the base stake", () => {
+   const game = landlordGame(["5 7", "6 3", "4"], 2);
+   playTurns(game, ["5", "6", "", "7"]);
+
+   assert.deepEqual(game.settle(), {
+      landlordWon: true,
+      base: 2,
+      bombs: 0,
+      spring: false,
+      antiSpring: false,
+      multiplier: 1,
+      scores: [4, -2, -2],
+   });
+});
+
+test("a spring doubles, as does each bomb and rocket", () => {
+   const game = landlordGame(["4 4 4 4 BJ RJ 5", "3", "6"], 3);
+   playTurns(game, ["4 4 4 4", "", "", "BJ RJ", "", "", "5"]);
+
+   const settlement = game.settle();
+   assert.ok(settlement);
+   assert.deepEqual(game.bombs, [2, 0, 0]);
+   assert.equal(settlement.bombs, 2);
+   assert.ok(settlement.spring);
+   assert.equal(settlement.multiplier, 8);
+   assert.deepEqual(settlement.scores, [48, -24, -24]);
+});
+
+test("an anti-spring doubles against the landlord", () => {
+   const game = landlordGame(["5 7", "6", "4"], 1);
+   playTurns(game, ["5", "6"]);
+
+   const settlement = game.settle();
+   assert.ok(settlement);
+   assert.ok(!settlement.landlordWon);
+   assert.ok(settlement.antiSpring);
+   assert.ok(!settlement.spring);
+   assert.equal(settlement.multiplier, 2);
+   assert.deepEqual(settlement.scores, [-4, 2, 2]);
+});
+
+test("robs double, with a stake of at least one", () => {
+   const game = landlordGame(["5 7", "6 3", "4"], 0);
+   game.robs = 2;
+   playTurns(game, ["5", "6", "", "7"]);
+
+   const settlement = game.settle();
+   assert.ok(settlement);
+   assert.equal(settlement.base, 1);
+   assert.equal(settlement.multiplier, 4);
+   assert.deepEqual(settlement.scores, [8, -4, -4]);
+});
+
+test("farmer bombs count against the landlord", () => {
+   const game = landlordGame(["5 7", "9 9 9 9 3", "4"], 1);
+   playTurns(game, ["5", "9 9 9 9", "", "", "3"]);
+
+   const settlement = game.settle();
+   assert.ok(settlement);
+   assert.deepEqual(game.bombs, [0, 1, 0]);
+   assert.ok(settlement.antiSpring);
+   assert.equal(settlement.multiplier, 4);
+   assert.deepEqual(settlement.scores, [-8, 4, 4]);
+});
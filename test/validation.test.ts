@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { douDizhu } from "../shared/ddz";
+import { Player, PlayerStatus } from "../shared/player";
+import { Room } from "../shared/room";
+import { ActionErrorCode, isActionError } from "../shared/validation";
+
+function startedRoom(): Room {
+   const room = new Room("TEST", douDizhu);
+   for (let index = 0; index < 3; index++) {
+      const player = new Player(`p${index}`, `Player ${index}`);
+      player.status = PlayerStatus.READY;
+      room.addPlayer(player);
+   }
+
+   assert.ok(room.tryStartRoom("validation-test"));
+   return room;
+}
+
+test("actions keep only their type and data", () => {
+   const room = startedRoom();
+   const bidder = room.game.currentIndex;
+
+   const bid = room.applyAction(bidder, { type: "bid", data: 3, note: "x" });
+   assert.deepEqual(bid, { type: "bid", data: 3 });
+   assert.deepEqual(room.log?.events.at(-1)?.action, { type: "bid", data: 3 });
+
+   const pass = room.applyAction(room.game.currentIndex, { type: "pass" });
+   assert.equal(isActionError(pass) && pass.code, ActionErrorCode.CANNOT_PASS);
+});
+
+test("played cards are the player's own", () => {
+   const room = startedRoom();
+   room.applyAction(room.game.currentIndex, { type: "bid", data: 3 });
+
+   const landlord = room.game.currentIndex;
+   const [card] = room.game.players[landlord].hand.cards;
+   const play = room.applyAction(landlord, {
+      type: "play",
+      data: [{ ...card, note: "x" }],
+   });
+
+   assert.ok(!isActionError(play));
+   assert.deepEqual(Object.keys(play), ["type", "data"]);
+   assert.equal((play.data as unknown[])[0], card);
+   assert.equal(room.log?.events.at(-1)?.action, play);
+});
+
+test("rejected actions are not logged", () => {
+   const room = startedRoom();
+   const error = room.applyAction(room.game.currentIndex, {
+      type: "bid",
+      data: 1.5,
+   });
+
+   assert.equal(
+      isActionError(error) && error.code,
+      ActionErrorCode.BAD_PAYLOAD
+   );
+   assert.equal(room.log?.events.length, 0);
+});
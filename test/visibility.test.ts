@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { douDizhu } from "../shared/ddz";
+import type { SerializedGame } from "../shared/game";
+import { GamePhase } from "../shared/game";
+import { BotLevel, Player, PlayerStatus } from "../shared/player";
+import type { SerializedRoom } from "../shared/room";
+import { Room } from "../shared/room";
+import { isActionError } from "../shared/validation";
+import type { Viewer } from "../shared/visibility";
+import {
+   ADMIN,
+   canSeeHand,
+   DELAYED_SPECTATOR,
+   SPECTATOR,
+   viewerFor,
+   ViewerRole,
+} from "../shared/visibility";
+
+const SEATS = 3;
+
+const VIEWERS: [string, Viewer][] = [
+   ...Array.from({ length: SEATS }, (_, index): [string, Viewer] => [
+      `seat ${index}`,
+      viewerFor(index),
+   ]),
+   ["spectator", SPECTATOR],
+   ["delayed spectator", DELAYED_SPECTATOR],
+   ["admin", ADMIN],
+];
+
+// A bot game played out in full, with the room kept at each phase
+function playRoundByPhase(): Map<string, Room> {
+   const room = new Room("TEST", douDizhu);
+   for (let index = 0; index < SEATS; index++) {
+      const player = new Player(`p${index}`, `Player ${index}`);
+      player.status = PlayerStatus.READY;
+      room.addPlayer(player);
+   }
+
+   const rooms = new Map<string, Room>([["lobby", snapshot(room)]]);
+   assert.ok(room.tryStartRoom("visibility-test"));
+
+   const { botAction } = douDizhu;
+   assert.ok(botAction, "Dou Dizhu seats bots");
+
+   for (let turn = 0; turn < 500; turn++) {
+      const { phase, currentIndex } = room.game;
+      if (!rooms.has(phase)) rooms.set(phase, snapshot(room));
+      if (phase === GamePhase.FINISHED) break;
+
+      const action = botAction(room.game, currentIndex, BotLevel.NORMAL);
+      assert.ok(!isActionError(room.applyAction(currentIndex, action)));
+   }
+
+   return rooms;
+}
+
+// A copy that later moves cannot change
+function snapshot(room: Room): Room {
+   return Room.restore(structuredClone(room.snapshot()));
+}
+
+function hiddenHands(data: SerializedRoom, viewer: Viewer): number {
+   return Object.values(data.players).filter(
+      (player) =>
+         !canSeeHand(viewer, player.gameIndex) &&
+         player.hand.some((card) => card.type !== "Flipped")
+   ).length;
+}
+
+describe("snapshots never reveal hidden information", () => {
+   const rooms = playRoundByPhase();
+
+   test("the round reaches every phase", () => {
+      assert.deepEqual(
+         [...rooms.keys()],
+         ["lobby", ...Object.values(GamePhase)]
+      );
+   });
+
+   for (const [phase, room] of rooms) {
+      for (const [name, viewer] of VIEWERS) {
+         test(`${phase}, as ${name}`, () => {
+            const data = room.serialize(viewer);
+            assert.equal(room.findLeak(data, viewer), undefined);
+            assert.equal(hiddenHands(data, viewer), 0);
+
+            const game = data.game as SerializedGame;
+            if (viewer.role !== ViewerRole.ADMIN) {
+               if (game.phase !== GamePhase.FINISHED)
+                  assert.equal(game.seed, undefined);
+               if (game.phase === GamePhase.BIDDING) {
+                  assert.ok(
+                     game.bottom.every((card) => card.type === "Flipped")
+                  );
+               }
+            }
+         });
+      }
+   }
+
+   test("a full snapshot shown to a spectator is caught", () => {
+      const room = rooms.get(GamePhase.BIDDING)!;
+      assert.notEqual(
+         room.findLeak(room.serialize(ADMIN), SPECTATOR),
+         undefined
+      );
+   });
+});